@@ -0,0 +1,139 @@
+// HTTP controller for admin endpoints (cache inspection and invalidation).
+// Orchestrates: Request → Cache stores / ContributionService stats → Response.
+
+import type { Request, Response } from "express";
+
+import type { Cache } from "../cache";
+import type { ContributionService } from "../services/contributionService";
+import { badRequest, notFound, notImplemented, unauthorized } from "../utils/appError";
+import { secretsEqual } from "../utils/crypto";
+
+// Entries returned per listing unless `limit` is given
+const DEFAULT_ENTRY_LIMIT = 1000;
+
+export type AdminControllerDependencies = {
+  /** Admin key from the environment; admin routes are disabled when undefined */
+  adminKey?: string;
+  /** Cache stores by name (e.g. "contributions", "renders") */
+  caches: Record<string, Cache>;
+  contributionService: ContributionService;
+};
+
+type AdminHandler = (req: Request, res: Response) => Promise<void>;
+
+export type AdminController = {
+  getStats: AdminHandler;
+  listEntries: AdminHandler;
+  deleteEntries: AdminHandler;
+  clear: AdminHandler;
+};
+
+/** Read optional string query param (all query params are lowercase). */
+function q(req: Request, key: string): string | undefined {
+  const raw = req.query[key];
+  return typeof raw === "string" ? raw.trim() || undefined : undefined;
+}
+
+/**
+ * Creates the admin request handlers.
+ * Every route requires `Authorization: Bearer <ADMIN_KEY>`.
+ */
+export function createAdminController(deps: AdminControllerDependencies): AdminController {
+  const { adminKey, caches, contributionService } = deps;
+
+  function requireAdmin(req: Request): void {
+    if (!adminKey) {
+      throw notImplemented("Admin routes are disabled on this server (ADMIN_KEY not set)");
+    }
+
+    const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+    if (!match || !secretsEqual(match[1], adminKey)) {
+      throw unauthorized("Invalid admin key. Send it as Authorization: Bearer <ADMIN_KEY>.");
+    }
+  }
+
+  /**
+   * Returns the stores selected by `store` (all stores when omitted).
+   */
+  function selectStores(req: Request): [string, Cache][] {
+    const name = q(req, "store");
+    if (!name) return Object.entries(caches);
+
+    const cache = caches[name];
+    if (!cache) {
+      throw notFound(`Unknown cache store "${name}". Valid options: ${Object.keys(caches).join(", ")}`);
+    }
+    return [[name, cache]];
+  }
+
+  return {
+    async getStats(req: Request, res: Response): Promise<void> {
+      requireAdmin(req);
+
+      const stores = Object.fromEntries(
+        Object.entries(caches).map(([name, cache]) => {
+          const { keys: _keys, ...stats } = cache.getStats();
+          return [name, stats];
+        })
+      );
+
+      res.json({ stores, providers: contributionService.getProviderCacheStats() });
+    },
+
+    async listEntries(req: Request, res: Response): Promise<void> {
+      requireAdmin(req);
+
+      const prefix = q(req, "prefix") ?? "";
+      const limitParam = q(req, "limit");
+      const limit = limitParam ? Number(limitParam) : DEFAULT_ENTRY_LIMIT;
+      if (!Number.isInteger(limit) || limit < 1) {
+        throw badRequest(`Invalid limit "${limitParam}". Must be a positive whole number.`);
+      }
+
+      const now = Date.now();
+      const entries = selectStores(req).flatMap(([store, cache]) =>
+        cache.listEntries(prefix).map((entry) => ({
+          store,
+          key: entry.key,
+          expiresAt: new Date(entry.expiresAt).toISOString(),
+          remainingTtlMs: entry.expiresAt - now,
+        }))
+      );
+
+      res.json({
+        total: entries.length,
+        entries: entries.slice(0, limit),
+      });
+    },
+
+    async deleteEntries(req: Request, res: Response): Promise<void> {
+      requireAdmin(req);
+
+      // A prefix is required so a typo cannot wipe a whole store; use DELETE /admin/cache for that
+      const prefix = q(req, "prefix");
+      if (!prefix) {
+        throw badRequest("Missing prefix, e.g. prefix=contrib:gh:<tokenHash>.");
+      }
+
+      const deleted = Object.fromEntries(
+        selectStores(req).map(([store, cache]) => [store, cache.deleteByPrefix(prefix)])
+      );
+      console.log(`[admin] Deleted cache entries with prefix "${prefix}"`, deleted);
+      res.json({ prefix, deleted });
+    },
+
+    async clear(req: Request, res: Response): Promise<void> {
+      requireAdmin(req);
+
+      const cleared = Object.fromEntries(
+        selectStores(req).map(([store, cache]) => {
+          const { size } = cache.getStats();
+          cache.clear();
+          return [store, size];
+        })
+      );
+      console.log(`[admin] Cleared cache stores`, cleared);
+      res.json({ cleared });
+    },
+  };
+}
@@ -3,12 +3,26 @@
 
 import type { Request, Response } from "express";
 
-import { renderHeatmapSvg } from "../render";
+import { renderHeatmapSvg, type HeatmapInput } from "../render";
+import type { RenderCache } from "../cache";
 import { badRequest } from "../utils/appError";
 import { isValidTheme, VALID_THEMES, type HeatmapTheme } from "../render/shared/colorScale";
 import { getArtPatternById, getArtPatternCount } from "../render/art";
 import { patternToContributionDaysGrid } from "../render/art/artRenderer";
-import { sendSVGResponse } from "../utils/network";
+import { sendSVGResponse, type CacheControlPolicy } from "../utils/network";
+
+export type ArtControllerDependencies = {
+  /** Browser/CDN caching of responses (ART_CACHE_CONTROL_POLICY when omitted) */
+  cacheControl?: CacheControlPolicy;
+  /** Cache for rendered SVGs; renders on every request when omitted */
+  renderCache?: RenderCache;
+};
+
+// Patterns only change with a deploy, so art is cached for a day and never marked immutable
+export const ART_CACHE_CONTROL_POLICY: CacheControlPolicy = {
+  maxAgeSeconds: 86400,
+  finalMaxAgeSeconds: 86400,
+};
 
 type ArtQueryParams = {
   pattern: number;
@@ -75,7 +89,11 @@ function parseQueryParams(req: Request): ArtQueryParams {
 /**
  * Creates the art request handler.
  */
-export function createArtController(): (req: Request, res: Response) => Promise<void> {
+export function createArtController(
+  deps: ArtControllerDependencies = {}
+): (req: Request, res: Response) => Promise<void> {
+  const { cacheControl = ART_CACHE_CONTROL_POLICY, renderCache } = deps;
+
   return async (req: Request, res: Response): Promise<void> => {
     const params = parseQueryParams(req);
     const { fromDate, toDate } = getDateRange();
@@ -89,12 +107,15 @@ export function createArtController(): (req: Request, res: Response) => Promise<
     const days = patternToContributionDaysGrid(artPattern, fromDate, toDate);
 
     // Render as heatmap
-    const svg = renderHeatmapSvg({ 
+    const input: HeatmapInput = {
       days,
       options: { theme: params.theme },
-    });
+    };
+    const svg = renderCache
+      ? renderCache.render("art", input, renderHeatmapSvg)
+      : renderHeatmapSvg(input);
 
-    sendSVGResponse(res, svg);
+    sendSVGResponse(req, res, svg, { policy: cacheControl });
   };
 }
 
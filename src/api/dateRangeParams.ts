@@ -0,0 +1,144 @@
+// Shared parsing of the date range query parameters (year, from, to).
+
+import type { Request } from "express";
+
+import { badRequest } from "../utils/appError";
+import { isValidTimeZone, todayIso } from "../utils/timezone";
+
+// Oldest date accepted for any range (same bound as the year parameter)
+const MIN_DATE_ISO = "2000-01-01";
+
+export type DateRange = {
+  fromDate: string; // YYYY-MM-DD
+  toDate: string;   // YYYY-MM-DD
+};
+
+/** Read optional string query param (all query params are lowercase). */
+function q(req: Request, key: string): string | undefined {
+  const raw = req.query[key];
+  return typeof raw === "string" ? raw.trim() || undefined : undefined;
+}
+
+/**
+ * Formats a Date as YYYY-MM-DD string.
+ */
+function formatDateIso(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Returns the rolling year ending at toDate (toDate - 1 year + 1 day, like GitHub),
+ * so the range covers exactly 365/366 days.
+ */
+function rollingYearStart(toDate: string): string {
+  const date = new Date(`${toDate}T00:00:00Z`);
+  date.setUTCFullYear(date.getUTCFullYear() - 1);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return formatDateIso(date);
+}
+
+/**
+ * Parses one date value: an ISO date (YYYY-MM-DD), "today", "ytd" (January 1st
+ * of the current year, `from` only) or a relative offset from today like
+ * "-90d", "-12w", "-6m" or "-2y".
+ */
+function parseDateValue(value: string, param: "from" | "to", timeZone?: string): string {
+  const normalized = value.toLowerCase();
+  const today = new Date(`${todayIso(timeZone)}T00:00:00Z`);
+
+  if (normalized === "today") {
+    return formatDateIso(today);
+  }
+
+  if (normalized === "ytd") {
+    if (param !== "from") {
+      throw badRequest(`"ytd" is only valid for from. Use to=today instead.`);
+    }
+    return `${today.getUTCFullYear()}-01-01`;
+  }
+
+  const relative = /^-(\d{1,4})([dwmy])$/.exec(normalized);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const unit = relative[2];
+    if (unit === "d") today.setUTCDate(today.getUTCDate() - amount);
+    if (unit === "w") today.setUTCDate(today.getUTCDate() - amount * 7);
+    if (unit === "m") today.setUTCMonth(today.getUTCMonth() - amount);
+    if (unit === "y") today.setUTCFullYear(today.getUTCFullYear() - amount);
+    return formatDateIso(today);
+  }
+
+  // ISO date; the round trip rejects impossible dates like 2024-02-30
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    if (!isNaN(date.getTime()) && formatDateIso(date) === value) {
+      return value;
+    }
+  }
+
+  throw badRequest(
+    `Invalid ${param} "${value}". Use YYYY-MM-DD, "today", ${param === "from" ? '"ytd", ' : ""}or a relative offset like -90d, -12w, -6m, -2y.`
+  );
+}
+
+/**
+ * Parses the requested date range, shared by all data endpoints.
+ *
+ * - `year`: January 1st to December 31st of that year
+ * - `from`/`to`: explicit range; `to` defaults to today and `from` to one year before `to`
+ * - neither: rolling year ending today (like GitHub)
+ *
+ * "Today" and relative dates are resolved in the given timezone (UTC when omitted).
+ * `year` cannot be combined with `from`/`to`. Ranges must start on or after
+ * 2000-01-01 and end no later than December 31st of the current year.
+ */
+export function parseDateRange(req: Request, timeZone?: string): DateRange {
+  const year = q(req, "year");
+  const from = q(req, "from");
+  const to = q(req, "to");
+  const currentYear = Number(todayIso(timeZone).slice(0, 4));
+
+  if (year && (from || to)) {
+    throw badRequest(`Use either year or from/to, not both.`);
+  }
+
+  if (year) {
+    const yearNum = parseInt(year, 10);
+    if (isNaN(yearNum) || yearNum < 2000 || yearNum > currentYear) {
+      throw badRequest(
+        `Invalid year "${year}". Must be a valid year between 2000 and ${currentYear}.`
+      );
+    }
+    return {
+      fromDate: `${yearNum}-01-01`,
+      toDate: `${yearNum}-12-31`,
+    };
+  }
+
+  const toDate = to ? parseDateValue(to, "to", timeZone) : todayIso(timeZone);
+  const fromDate = from ? parseDateValue(from, "from", timeZone) : rollingYearStart(toDate);
+
+  if (fromDate < MIN_DATE_ISO) {
+    throw badRequest(`Invalid from "${from ?? fromDate}". Ranges must start on or after ${MIN_DATE_ISO}.`);
+  }
+  if (toDate > `${currentYear}-12-31`) {
+    throw badRequest(`Invalid to "${to ?? toDate}". Ranges must end on or before ${currentYear}-12-31.`);
+  }
+  if (fromDate > toDate) {
+    throw badRequest(`Invalid range: from (${fromDate}) is after to (${toDate}).`);
+  }
+
+  return { fromDate, toDate };
+}
+
+/**
+ * Parses the optional `tz` parameter (IANA name like "Europe/Berlin").
+ * Every source buckets contributions into days of this timezone; UTC when omitted.
+ */
+export function parseTimeZone(req: Request): string | undefined {
+  const timeZone = q(req, "tz");
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    throw badRequest(`Invalid tz "${timeZone}". Use an IANA timezone name like Europe/Berlin.`);
+  }
+  return timeZone;
+}
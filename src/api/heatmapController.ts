@@ -3,58 +3,48 @@
 
 import type { Request, Response } from "express";
 
-import type { ContributionService } from "../services/contributionService";
-import type { ContributionDay } from "../domain/contributions";
-import { renderHeatmapSvg } from "../render";
-import { badRequest, upstreamError } from "../utils/appError";
+import type { SealService } from "../services/sealService";
+import type { ContributionService, UnifiedContribution } from "../services/contributionService";
+import type { ContributionSource, SourceCredentials } from "../sources/contributionSource";
+import type { Provider } from "../domain/provider";
+import { CONTRIBUTION_TYPES, type ContributionDay, type ContributionType } from "../domain/contributions";
+import { renderHeatmapSvg, type HeatmapInput } from "../render";
+import type { RenderCache } from "../cache";
+import { badRequest } from "../utils/appError";
 import { isValidTheme, VALID_THEMES, type HeatmapTheme } from "../render/shared/colorScale";
-import { sendSVGResponse } from "../utils/network";
+import { sendSVGResponse, type CacheControlPolicy } from "../utils/network";
+import {
+  parseProfileSlug,
+  parseSealedParam,
+  parseSourceCredentials,
+  requireSourceCredentials,
+  sourceFailureError,
+  toUnavailableSources,
+  unsealCredentials,
+} from "./sourceParams";
+import { parseDateRange, parseTimeZone } from "./dateRangeParams";
 
 export type HeatmapControllerDependencies = {
   contributionService: ContributionService;
+  /** Undefined when sealed parameters are disabled (no encryption key configured) */
+  sealService?: SealService;
+  /** Browser/CDN caching of responses (DEFAULT_CACHE_CONTROL_POLICY when omitted) */
+  cacheControl?: CacheControlPolicy;
+  /** Cache for rendered SVGs; renders on every request when omitted */
+  renderCache?: RenderCache;
 };
 
 type HeatmapQueryParams = {
-  githubToken?: string;
-  gitlabToken?: string;
-  gitlabBaseUrl?: string;
+  credentials: Partial<Record<Provider, SourceCredentials[]>>;
+  profile?: string;
+  sealed?: string;
   fromDate: string; // YYYY-MM-DD
   toDate: string;   // YYYY-MM-DD
+  timeZone?: string;
   theme?: HeatmapTheme;
+  types?: ContributionType[];
 };
 
-/**
- * Formats a Date as YYYY-MM-DD string.
- */
-function formatDateIso(date: Date): string {
-  return date.toISOString().split("T")[0];
-}
-
-/**
- * Calculates date range based on year parameter.
- * - If year is provided: returns Jan 1 to Dec 31 of that year
- * - If no year: returns rolling year (today - 1 year to today, like GitHub)
- */
-function getDateRange(year?: number): { fromDate: string; toDate: string } {
-  if (year !== undefined) {
-    return {
-      fromDate: `${year}-01-01`,
-      toDate: `${year}-12-31`,
-    };
-  }
-
-  // Rolling year: from today - 1 year to today
-  const today = new Date();
-  const oneYearAgo = new Date(today);
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  oneYearAgo.setDate(oneYearAgo.getDate() + 1); // Start day after, so we get exactly 365/366 days
-
-  return {
-    fromDate: formatDateIso(oneYearAgo),
-    toDate: formatDateIso(today),
-  };
-}
-
 /** Read optional string query param (all query params are lowercase). */
 function q(req: Request, key: string): string | undefined {
   const raw = req.query[key] as string | undefined;
@@ -62,37 +52,36 @@ function q(req: Request, key: string): string | undefined {
 }
 
 /**
- * Parses query parameters for heatmap request.
- * All query parameter names are lowercase.
+ * Parses the comma-separated `types` filter (case-insensitive, e.g. "commits,pullrequests").
  */
-function parseQueryParams(req: Request): HeatmapQueryParams {
-  const parsedGithubToken = q(req, "githubtoken");
-  const parsedGitlabToken = q(req, "gitlabtoken");
-  const gitlabBaseUrl = q(req, "gitlabbaseurl");
-  const year = q(req, "year");
-  const theme = q(req, "theme");
+function parseContributionTypes(raw: string): ContributionType[] {
+  const types = new Set<ContributionType>();
 
-  // Validate token format (if provided, must be non-empty)
-  if (parsedGithubToken !== undefined && parsedGithubToken === "") {
-    throw badRequest("Invalid GitHub token format");
-  }
-  if (parsedGitlabToken !== undefined && parsedGitlabToken === "") {
-    throw badRequest("Invalid GitLab token format");
-  }
-
-  // Parse and validate year parameter (optional - if not provided, uses rolling year)
-  let parsedYear: number | undefined;
-  if (year) {
-    const yearNum = parseInt(year, 10);
-    if (isNaN(yearNum) || yearNum < 2000 || yearNum > new Date().getFullYear()) {
+  for (const name of raw.split(",").map((part) => part.trim().toLowerCase()).filter(Boolean)) {
+    const type = CONTRIBUTION_TYPES.find((candidate) => candidate.toLowerCase() === name);
+    if (!type) {
       throw badRequest(
-        `Invalid year "${year}". Must be a valid year between 2000 and ${new Date().getFullYear()}.`
+        `Invalid contribution type "${name}". Valid options: ${CONTRIBUTION_TYPES.map((t) => t.toLowerCase()).join(", ")}`
       );
     }
-    parsedYear = yearNum;
+    types.add(type);
   }
 
-  const { fromDate, toDate } = getDateRange(parsedYear);
+  return [...types];
+}
+
+/**
+ * Parses query parameters for heatmap request.
+ * All query parameter names are lowercase.
+ */
+function parseQueryParams(req: Request, sources: ContributionSource[]): HeatmapQueryParams {
+  const credentials = parseSourceCredentials(req.query, sources);
+  const profile = parseProfileSlug(req, credentials);
+  const sealed = parseSealedParam(req, credentials, profile);
+  const theme = q(req, "theme");
+  const types = q(req, "types");
+  const timeZone = parseTimeZone(req);
+  const { fromDate, toDate } = parseDateRange(req, timeZone);
 
   // Validate theme parameter
   let parsedTheme: HeatmapTheme | undefined;
@@ -106,29 +95,35 @@ function parseQueryParams(req: Request): HeatmapQueryParams {
     parsedTheme = isValidTheme(trimmedTheme) ? trimmedTheme : undefined;
   }
 
+  // Validate contribution type filter (optional - all types when not provided)
+  const parsedTypes = types ? parseContributionTypes(types) : undefined;
+
   return {
-    githubToken: parsedGithubToken,
-    gitlabToken: parsedGitlabToken,
-    gitlabBaseUrl: gitlabBaseUrl || undefined,
+    credentials,
+    profile,
+    sealed,
     fromDate,
     toDate,
+    timeZone,
     theme: parsedTheme,
+    types: parsedTypes?.length ? parsedTypes : undefined,
   };
 }
 
 
 /**
  * Transforms unified contributions to ContributionDay array for renderer.
- * Includes per-platform breakdown for the "default" theme.
+ * Includes per-platform breakdown for the "default" theme and per-type breakdown for tooltips.
  */
 function toContributionDays(
-  contributions: { date: string; total: number; github: number; gitlab: number }[]
+  contributions: UnifiedContribution[]
 ): ContributionDay[] {
   return contributions.map((c) => ({
     dateIso: c.date,
     count: c.total,
-    githubCount: c.github,
-    gitlabCount: c.gitlab,
+    sourceCounts: c.counts,
+    accountCounts: c.accounts,
+    typeCounts: c.types,
   }));
 }
 
@@ -138,48 +133,61 @@ function toContributionDays(
 export function createHeatmapController(
   deps: HeatmapControllerDependencies
 ): (req: Request, res: Response) => Promise<void> {
-  const { contributionService } = deps;
+  const { contributionService, sealService, cacheControl, renderCache } = deps;
 
   return async (req: Request, res: Response): Promise<void> => {
-    const params = parseQueryParams(req);
+    const sources = contributionService.listSources();
+    const params = parseQueryParams(req, sources);
 
-    // Require at least one token
-    if (!params.githubToken && !params.gitlabToken) {
-      throw badRequest(
-        "At least one token is required. Provide githubtoken and/or gitlabtoken."
-      );
+    // Sealed blobs carry their own credentials
+    const credentials = params.sealed
+      ? unsealCredentials(params.sealed, "heatmap", sealService)
+      : params.credentials;
+
+    // Require at least one token, unless a profile supplies them
+    if (!params.profile) {
+      requireSourceCredentials(credentials, sources);
     }
 
     const result = await contributionService.fetchAggregatedContributions({
-      githubToken: params.githubToken,
-      gitlabToken: params.gitlabToken,
-      gitlabBaseUrl: params.gitlabBaseUrl,
+      credentials,
+      profile: params.profile,
       fromDate: params.fromDate,
       toDate: params.toDate,
+      timeZone: params.timeZone,
+      types: params.types,
     });
 
-    // Check for upstream errors - report as 502 if ALL requested sources failed
+    // Check for upstream errors - report as 502 (429 when rate limited) if ALL requested sources failed
     if (result.sourcesRequested > 0 && result.sourcesSucceeded === 0) {
-      const errorMessages = result.errors
-        .map((e) => `${e.source}: ${e.message}`)
-        .join("; ");
-      throw upstreamError(`Failed to fetch contributions: ${errorMessages}`);
+      throw sourceFailureError(result.errors);
     }
 
     // Log partial failures for debugging (some sources worked, some didn't)
     if (result.errors.length > 0 && result.sourcesSucceeded > 0) {
       console.warn(
-        `[heatmap] Partial failure - ${result.sourcesSucceeded}/${result.sourcesRequested} sources succeeded. Errors:`,
+        `[heatmap] Partial failure - ${result.sourcesSucceeded}/${result.sourcesRequested} accounts succeeded. Errors:`,
         result.errors
       );
     }
 
     const days = toContributionDays(result.contributions);
-    const svg = renderHeatmapSvg({
+    // The theme is always set, so the default theme shares cached renderings
+    const input: HeatmapInput = {
       days,
-      options: params.theme ? { theme: params.theme } : undefined,
+      options: { theme: params.theme ?? "default" },
+      // Partial results carry a warning badge, so missing data is not mistaken for a quiet period
+      unavailable: result.errors.length > 0 ? toUnavailableSources(result.errors, sources) : undefined,
+    };
+    const svg = renderCache
+      ? renderCache.render("heatmap", input, renderHeatmapSvg)
+      : renderHeatmapSvg(input);
+
+    sendSVGResponse(req, res, svg, {
+      policy: cacheControl,
+      isFinal: result.isFinal,
+      lastModified: result.lastModified,
+      unavailableSources: result.errors.map((e) => e.source),
     });
-
-    sendSVGResponse(res, svg);
   };
 }
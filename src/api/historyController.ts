@@ -3,100 +3,62 @@
 
 import type { Request, Response } from "express";
 
+import type { SealService } from "../services/sealService";
 import type { ContributionService } from "../services/contributionService";
+import type { ContributionSource, SourceCredentials } from "../sources/contributionSource";
+import type { Provider } from "../domain/provider";
 import type { ContributionHistoryPoint } from "../domain/contributions";
-import { renderLineChartSvg } from "../render";
-import { badRequest, upstreamError } from "../utils/appError";
-import { sendSVGResponse } from "../utils/network";
+import { renderLineChartSvg, type LineChartInput } from "../render";
+import type { RenderCache } from "../cache";
+import { sendSVGResponse, type CacheControlPolicy } from "../utils/network";
+import {
+  parseProfileSlug,
+  parseSealedParam,
+  parseSourceCredentials,
+  requireSourceCredentials,
+  sourceFailureError,
+  toUnavailableSources,
+  unsealCredentials,
+} from "./sourceParams";
+import { parseDateRange, parseTimeZone } from "./dateRangeParams";
 
 export type HistoryControllerDependencies = {
   contributionService: ContributionService;
+  /** Undefined when sealed parameters are disabled (no encryption key configured) */
+  sealService?: SealService;
+  /** Browser/CDN caching of responses (DEFAULT_CACHE_CONTROL_POLICY when omitted) */
+  cacheControl?: CacheControlPolicy;
+  /** Cache for rendered SVGs; renders on every request when omitted */
+  renderCache?: RenderCache;
 };
 
 type HistoryQueryParams = {
-  githubToken?: string;
-  gitlabToken?: string;
-  gitlabBaseUrl?: string;
+  credentials: Partial<Record<Provider, SourceCredentials[]>>;
+  profile?: string;
+  sealed?: string;
   fromDate: string; // YYYY-MM-DD
   toDate: string;   // YYYY-MM-DD
+  timeZone?: string;
 };
 
-/**
- * Formats a Date as YYYY-MM-DD string.
- */
-function formatDateIso(date: Date): string {
-  return date.toISOString().split("T")[0];
-}
-
-/**
- * Calculates date range based on year parameter.
- * - If year is provided: returns Jan 1 to Dec 31 of that year
- * - If no year: returns rolling year (today - 1 year to today, like GitHub)
- */
-function getDateRange(year?: number): { fromDate: string; toDate: string } {
-  if (year !== undefined) {
-    return {
-      fromDate: `${year}-01-01`,
-      toDate: `${year}-12-31`,
-    };
-  }
-
-  // Rolling year: from today - 1 year to today
-  const today = new Date();
-  const oneYearAgo = new Date(today);
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  oneYearAgo.setDate(oneYearAgo.getDate() + 1); // Start day after, so we get exactly 365/366 days
-
-  return {
-    fromDate: formatDateIso(oneYearAgo),
-    toDate: formatDateIso(today),
-  };
-}
-
-/** Read optional string query param (all query params are lowercase). */
-function q(req: Request, key: string): string | undefined {
-  const raw = req.query[key] as string | undefined;
-  return typeof raw === "string" ? raw.trim() || undefined : undefined;
-}
-
 /**
  * Parses query parameters for history request.
  * All query parameter names are lowercase.
  */
-function parseQueryParams(req: Request): HistoryQueryParams {
-  const parsedGithubToken = q(req, "githubtoken");
-  const parsedGitlabToken = q(req, "gitlabtoken");
-  const gitlabBaseUrl = q(req, "gitlabbaseurl");
-  const year = q(req, "year");
-
-  // Validate token format (if provided, must be non-empty)
-  if (parsedGithubToken !== undefined && parsedGithubToken === "") {
-    throw badRequest("Invalid GitHub token format");
-  }
-  if (parsedGitlabToken !== undefined && parsedGitlabToken === "") {
-    throw badRequest("Invalid GitLab token format");
-  }
-
-  // Parse and validate year parameter (optional - if not provided, uses rolling year)
-  let parsedYear: number | undefined;
-  if (year) {
-    const yearNum = parseInt(year, 10);
-    if (isNaN(yearNum) || yearNum < 2000 || yearNum > new Date().getFullYear()) {
-      throw badRequest(
-        `Invalid year "${year}". Must be a valid year between 2000 and ${new Date().getFullYear()}.`
-      );
-    }
-    parsedYear = yearNum;
-  }
-
-  const { fromDate, toDate } = getDateRange(parsedYear);
+function parseQueryParams(req: Request, sources: ContributionSource[]): HistoryQueryParams {
+  const credentials = parseSourceCredentials(req.query, sources);
+  const profile = parseProfileSlug(req, credentials);
+  const sealed = parseSealedParam(req, credentials, profile);
+  const timeZone = parseTimeZone(req);
+  const { fromDate, toDate } = parseDateRange(req, timeZone);
 
   return {
-    githubToken: parsedGithubToken,
-    gitlabToken: parsedGitlabToken,
-    gitlabBaseUrl: gitlabBaseUrl || undefined,
+    credentials,
+    profile,
+    sealed,
     fromDate,
     toDate,
+    timeZone,
   };
 }
 
@@ -119,37 +81,48 @@ function toHistoryPoints(
 export function createHistoryController(
   deps: HistoryControllerDependencies
 ): (req: Request, res: Response) => Promise<void> {
-  const { contributionService } = deps;
+  const { contributionService, sealService, cacheControl, renderCache } = deps;
 
   return async (req: Request, res: Response): Promise<void> => {
-    const params = parseQueryParams(req);
+    const sources = contributionService.listSources();
+    const params = parseQueryParams(req, sources);
+
+    // Sealed blobs carry their own credentials
+    const credentials = params.sealed
+      ? unsealCredentials(params.sealed, "history", sealService)
+      : params.credentials;
 
-    // Require at least one token
-    if (!params.githubToken && !params.gitlabToken) {
-      throw badRequest(
-        "At least one token is required. Provide githubtoken and/or gitlabtoken."
-      );
+    // Require at least one token, unless a profile supplies them
+    if (!params.profile) {
+      requireSourceCredentials(credentials, sources);
     }
 
     const result = await contributionService.fetchAggregatedContributions({
-      githubToken: params.githubToken,
-      gitlabToken: params.gitlabToken,
-      gitlabBaseUrl: params.gitlabBaseUrl,
+      credentials,
+      profile: params.profile,
       fromDate: params.fromDate,
       toDate: params.toDate,
+      timeZone: params.timeZone,
     });
 
-    // Check for upstream errors - report as 502
-    if (result.errors.length > 0 && result.contributions.length === 0) {
-      const errorMessages = result.errors
-        .map((e) => `${e.source}: ${e.message}`)
-        .join("; ");
-      throw upstreamError(`Failed to fetch contributions: ${errorMessages}`);
+    // Check for upstream errors - report as 502 (429 when rate limited) if ALL requested sources failed
+    if (result.sourcesRequested > 0 && result.sourcesSucceeded === 0) {
+      throw sourceFailureError(result.errors);
     }
 
-    const points = toHistoryPoints(result.contributions);
-    const svg = renderLineChartSvg({ points });
-
-    sendSVGResponse(res, svg);
+    const input: LineChartInput = {
+      points: toHistoryPoints(result.contributions),
+      unavailable: result.errors.length > 0 ? toUnavailableSources(result.errors, sources) : undefined,
+    };
+    const svg = renderCache
+      ? renderCache.render("history", input, renderLineChartSvg)
+      : renderLineChartSvg(input);
+
+    sendSVGResponse(req, res, svg, {
+      policy: cacheControl,
+      isFinal: result.isFinal,
+      lastModified: result.lastModified,
+      unavailableSources: result.errors.map((e) => e.source),
+    });
   };
 }
@@ -0,0 +1,45 @@
+// HTTP controller for import endpoint.
+// Orchestrates: Request body → importParser → ImportService → Response.
+
+import type { Request, Response } from "express";
+
+import type { ImportService } from "../services/importService";
+import { parseImportCsv, parseImportJson } from "../services/importParser";
+import { badRequest } from "../utils/appError";
+
+export type ImportControllerDependencies = {
+  importService: ImportService;
+};
+
+/**
+ * Creates the import request handler.
+ * Accepts a JSON array of { dateIso, count } or `date,count` CSV (text/csv or text/plain).
+ */
+export function createImportController(
+  deps: ImportControllerDependencies
+): (req: Request, res: Response) => Promise<void> {
+  const { importService } = deps;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    let days;
+    if (req.is("application/json")) {
+      days = parseImportJson(req.body);
+    } else if (req.is(["text/csv", "text/plain"])) {
+      if (typeof req.body !== "string") {
+        throw badRequest("CSV import body is empty");
+      }
+      days = parseImportCsv(req.body);
+    } else {
+      throw badRequest("Unsupported Content-Type. Use application/json or text/csv.");
+    }
+
+    const contributionImport = importService.saveImport(days);
+
+    res.status(201).json({
+      id: contributionImport.id,
+      days: contributionImport.days.length,
+      fromDate: contributionImport.days[0].dateIso,
+      toDate: contributionImport.days[contributionImport.days.length - 1].dateIso,
+    });
+  };
+}
@@ -0,0 +1,88 @@
+// HTTP controller for profile endpoints.
+// Orchestrates: Request body → sourceParams → ProfileService → Response.
+
+import type { Request, Response } from "express";
+
+import type { ContributionService } from "../services/contributionService";
+import type { ProfileCredentials, ProfileService } from "../services/profileService";
+import { badRequest, notImplemented } from "../utils/appError";
+import { parseSourceCredentials, requireSourceCredentials } from "./sourceParams";
+
+export type ProfileControllerDependencies = {
+  contributionService: ContributionService;
+  /** Undefined when profiles are disabled (no encryption key configured) */
+  profileService?: ProfileService;
+};
+
+type ProfileHandler = (req: Request, res: Response) => Promise<void>;
+
+export type ProfileController = {
+  create: ProfileHandler;
+  get: ProfileHandler;
+  update: ProfileHandler;
+  remove: ProfileHandler;
+};
+
+/**
+ * Reads the owner secret from `Authorization: Bearer <secret>`.
+ */
+function getOwnerSecret(req: Request): string {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  if (!match) {
+    throw badRequest("Missing owner secret. Send it as Authorization: Bearer <ownerSecret>.");
+  }
+  return match[1];
+}
+
+/**
+ * Creates the profile request handlers.
+ *
+ * The JSON body uses the same names as the query parameters of /heatmap
+ * (e.g. `{ "githubtoken": "...", "gitlabtoken": ["...", "..."], "gitlabprofile": "commits-only" }`).
+ */
+export function createProfileController(deps: ProfileControllerDependencies): ProfileController {
+  const { contributionService, profileService } = deps;
+
+  function requireProfileService(): ProfileService {
+    if (!profileService) {
+      throw notImplemented("Profiles are disabled on this server (PROFILE_ENCRYPTION_KEY not set)");
+    }
+    return profileService;
+  }
+
+  function parseBody(req: Request): ProfileCredentials {
+    if (!req.is("application/json") || !req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+      throw badRequest("Profile body must be a JSON object of token parameters.");
+    }
+
+    const sources = contributionService.listSources();
+    const credentials = parseSourceCredentials(req.body as Record<string, unknown>, sources);
+    requireSourceCredentials(credentials, sources);
+    return credentials;
+  }
+
+  return {
+    async create(req: Request, res: Response): Promise<void> {
+      const service = requireProfileService();
+      const profile = service.createProfile(parseBody(req));
+      res.status(201).json(profile);
+    },
+
+    async get(req: Request, res: Response): Promise<void> {
+      const service = requireProfileService();
+      res.json(service.getProfile(req.params.slug, getOwnerSecret(req)));
+    },
+
+    async update(req: Request, res: Response): Promise<void> {
+      const service = requireProfileService();
+      const ownerSecret = getOwnerSecret(req);
+      res.json(service.updateProfile(req.params.slug, ownerSecret, parseBody(req)));
+    },
+
+    async remove(req: Request, res: Response): Promise<void> {
+      const service = requireProfileService();
+      service.deleteProfile(req.params.slug, getOwnerSecret(req));
+      res.status(204).end();
+    },
+  };
+}
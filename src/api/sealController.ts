@@ -0,0 +1,92 @@
+// HTTP controller for the seal endpoint.
+// Orchestrates: Request body → sourceParams → SealService → Response.
+
+import type { Request, Response } from "express";
+
+import type { ContributionService } from "../services/contributionService";
+import { SEALED_ENDPOINTS, type SealClaims, type SealedEndpoint, type SealService } from "../services/sealService";
+import { badRequest, notImplemented } from "../utils/appError";
+import { parseSourceCredentials, requireSourceCredentials } from "./sourceParams";
+
+export type SealControllerDependencies = {
+  contributionService: ContributionService;
+  /** Undefined when sealed parameters are disabled (no encryption key configured) */
+  sealService?: SealService;
+};
+
+// Milliseconds per `expiresin` unit
+const EXPIRY_UNITS_MS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses `expiresin` (e.g. "12h", "30d", "8w") into an absolute expiry.
+ */
+function parseExpiresIn(raw: unknown): string | undefined {
+  if (raw === undefined || raw === "") return undefined;
+
+  const match = typeof raw === "string" ? /^(\d{1,4})([hdw])$/.exec(raw.trim().toLowerCase()) : null;
+  if (!match || Number(match[1]) === 0) {
+    throw badRequest(`Invalid expiresin "${String(raw)}". Use a duration like 12h, 30d or 8w.`);
+  }
+  return new Date(Date.now() + Number(match[1]) * EXPIRY_UNITS_MS[match[2]]).toISOString();
+}
+
+/**
+ * Parses `endpoints`, given as an array or a comma-separated string (e.g. "heatmap,history").
+ */
+function parseEndpoints(raw: unknown): SealedEndpoint[] | undefined {
+  if (raw === undefined || raw === "") return undefined;
+
+  const values = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(",") : [raw];
+  const endpoints = new Set<SealedEndpoint>();
+
+  for (const value of values) {
+    const name = typeof value === "string" ? value.trim().toLowerCase().replace(/^\//, "") : "";
+    const endpoint = SEALED_ENDPOINTS.find((candidate) => candidate === name);
+    if (!endpoint) {
+      throw badRequest(`Invalid endpoint "${String(value)}". Valid options: ${SEALED_ENDPOINTS.join(", ")}`);
+    }
+    endpoints.add(endpoint);
+  }
+
+  return endpoints.size > 0 ? [...endpoints] : undefined;
+}
+
+/**
+ * Creates the seal request handler.
+ *
+ * The JSON body uses the same names as the query parameters of /heatmap, plus
+ * optional `expiresin` and `endpoints` claims. Returns the blob to pass as `sealed=`.
+ */
+export function createSealController(
+  deps: SealControllerDependencies
+): (req: Request, res: Response) => Promise<void> {
+  const { contributionService, sealService } = deps;
+
+  return async (req: Request, res: Response): Promise<void> => {
+    if (!sealService) {
+      throw notImplemented("Sealed parameters are disabled on this server (SEAL_ENCRYPTION_KEY not set)");
+    }
+    if (!req.is("application/json") || !req.body || typeof req.body !== "object" || Array.isArray(req.body)) {
+      throw badRequest("Seal body must be a JSON object of token parameters.");
+    }
+
+    const body = req.body as Record<string, unknown>;
+    const sources = contributionService.listSources();
+    const credentials = parseSourceCredentials(body, sources);
+    requireSourceCredentials(credentials, sources);
+
+    const claims: SealClaims = {
+      expiresAt: parseExpiresIn(body.expiresin),
+      endpoints: parseEndpoints(body.endpoints),
+    };
+
+    res.status(201).json({
+      sealed: sealService.seal(credentials, claims),
+      ...claims,
+    });
+  };
+}
@@ -0,0 +1,189 @@
+// Shared parsing of per-source credential query parameters, and mapping of source failures.
+
+import type { Request } from "express";
+
+import type { Provider } from "../domain/provider";
+import { getCredentialParam, type ContributionSource, type SourceCredentials } from "../sources/contributionSource";
+import type { UnavailableSource } from "../render";
+import type { SourceError } from "../services/contributionService";
+import type { SealedEndpoint, SealService } from "../services/sealService";
+import { badRequest, notImplemented, rateLimited, upstreamError, type AppError } from "../utils/appError";
+
+// Accounts per provider in one request (e.g. personal + work GitHub)
+const MAX_ACCOUNTS_PER_PROVIDER = 5;
+
+// Profile slugs are base64url (see profileService)
+const PROFILE_SLUG_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Parameters to read credentials from: the query string, or a JSON body using the same names.
+ */
+export type CredentialParams = Request["query"] | Record<string, unknown>;
+
+/**
+ * Read all values of a repeatable param, keeping positions.
+ * Empty values become undefined so `gitlabbaseurl=` can mean "server default".
+ */
+function qAll(params: CredentialParams, key: string): (string | undefined)[] {
+  const raw = params[key];
+  const values = Array.isArray(raw) ? raw : raw === undefined ? [] : [raw];
+  return values.map((value) => (typeof value === "string" ? value.trim() || undefined : undefined));
+}
+
+/**
+ * Reads the credential parameter of every registered source (`<provider>token` by default)
+ * and `<provider>baseurl` where supported.
+ *
+ * Parameters may be repeated for multiple accounts of one provider. Base URLs pair
+ * with tokens by position: the n-th `gitlabbaseurl` belongs to the n-th `gitlabtoken`.
+ * Only sources that received a token are included in the result.
+ *
+ * @param params - `req.query`, or a JSON body with the same parameter names (POST /profiles)
+ */
+export function parseSourceCredentials(
+  params: CredentialParams,
+  sources: ContributionSource[]
+): Partial<Record<Provider, SourceCredentials[]>> {
+  const credentials: Partial<Record<Provider, SourceCredentials[]>> = {};
+
+  for (const source of sources) {
+    const tokens = qAll(params, getCredentialParam(source));
+    const baseUrls = source.supportsBaseUrl ? qAll(params, `${source.provider}baseurl`) : [];
+
+    if (tokens.length > MAX_ACCOUNTS_PER_PROVIDER) {
+      throw badRequest(
+        `Too many ${source.displayName} accounts: ${tokens.length} (max ${MAX_ACCOUNTS_PER_PROVIDER})`
+      );
+    }
+
+    const options = parseSourceOptions(params, source);
+
+    const accounts: SourceCredentials[] = [];
+    tokens.forEach((token, index) => {
+      // Empty tokens are ignored, like an absent parameter
+      if (!token) return;
+      accounts.push({ token, baseUrl: baseUrls[index], options });
+    });
+
+    if (accounts.length > 0) {
+      credentials[source.provider] = accounts;
+    }
+  }
+
+  return credentials;
+}
+
+/**
+ * Reads a source's option parameters. Options apply to all accounts of the source.
+ * Returns undefined when none were given.
+ */
+function parseSourceOptions(params: CredentialParams, source: ContributionSource): Record<string, string> | undefined {
+  const options: Record<string, string> = {};
+
+  for (const param of source.optionParams ?? []) {
+    const value = qAll(params, param)[0];
+    if (value) options[param] = value;
+  }
+
+  if (Object.keys(options).length === 0) return undefined;
+
+  source.validateOptions?.(options);
+  return options;
+}
+
+/**
+ * Throws a 400 unless at least one source received credentials.
+ */
+export function requireSourceCredentials(
+  credentials: Partial<Record<Provider, SourceCredentials[]>>,
+  sources: ContributionSource[]
+): void {
+  if (Object.keys(credentials).length > 0) return;
+
+  const tokenParams = sources.map(getCredentialParam);
+  throw badRequest(
+    `At least one token is required. Provide ${tokenParams.join(", ")}.`
+  );
+}
+
+/**
+ * Parses the optional `profile` parameter (slug from POST /profiles).
+ * A profile supplies all credentials, so it cannot be combined with token parameters.
+ */
+export function parseProfileSlug(
+  req: Request,
+  credentials: Partial<Record<Provider, SourceCredentials[]>>
+): string | undefined {
+  const profile = qAll(req.query, "profile")[0];
+  if (!profile) return undefined;
+
+  if (!PROFILE_SLUG_PATTERN.test(profile)) {
+    throw badRequest(`Invalid profile "${profile}".`);
+  }
+  if (Object.keys(credentials).length > 0) {
+    throw badRequest(`Use either profile or token parameters, not both.`);
+  }
+  return profile;
+}
+
+/**
+ * Parses the optional `sealed` parameter (blob from POST /seal).
+ * A sealed blob supplies all credentials, so it cannot be combined with a profile or token parameters.
+ */
+export function parseSealedParam(
+  req: Request,
+  credentials: Partial<Record<Provider, SourceCredentials[]>>,
+  profile: string | undefined
+): string | undefined {
+  const sealed = qAll(req.query, "sealed")[0];
+  if (!sealed) return undefined;
+
+  if (profile || Object.keys(credentials).length > 0) {
+    throw badRequest(`Use either sealed, profile or token parameters, not several.`);
+  }
+  return sealed;
+}
+
+/**
+ * Opens a sealed blob for an endpoint, checking its expiry and endpoint claims.
+ */
+export function unsealCredentials(
+  sealed: string,
+  endpoint: SealedEndpoint,
+  sealService: SealService | undefined
+): Partial<Record<Provider, SourceCredentials[]>> {
+  if (!sealService) {
+    throw notImplemented("Sealed parameters are disabled on this server (SEAL_ENCRYPTION_KEY not set)");
+  }
+  return sealService.unseal(sealed, endpoint);
+}
+
+/**
+ * Returns the error to respond with when every requested account failed.
+ * Only rate limits yield a 429 (with the longest reset), any other failure a 502.
+ */
+export function sourceFailureError(errors: SourceError[]): AppError {
+  const errorMessages = errors
+    .map((e) => `${e.account}: ${e.message}`)
+    .join("; ");
+
+  if (errors.length > 0 && errors.every((e) => e.rateLimited)) {
+    const resets = errors.map((e) => e.rateLimited?.retryAfterSeconds);
+    const retryAfterSeconds = resets.every((seconds) => seconds !== undefined)
+      ? Math.max(...(resets as number[]))
+      : undefined;
+    return rateLimited(`Upstream rate limit exceeded: ${errorMessages}`, retryAfterSeconds);
+  }
+
+  return upstreamError(`Failed to fetch contributions: ${errorMessages}`);
+}
+
+/**
+ * Maps the failed accounts of a partially successful result to the renderers' warning badge input.
+ */
+export function toUnavailableSources(errors: SourceError[], sources: ContributionSource[]): UnavailableSource[] {
+  return errors.map((e) => ({
+    source: sources.find((source) => source.provider === e.source)?.displayName ?? e.source,
+    account: e.account,
+  }));
+}
@@ -1,32 +1,101 @@
+import { createHash } from 'crypto';
+
 import { hashToken } from '../utils/crypto';
 
 /**
- * Parameters for building a source-specific cache key.
+ * Parameters for building a per-month cache key.
  */
-export type CacheKeyParams = {
-  provider: 'github' | 'gitlab';
+export type MonthCacheKeyParams = {
+  /** Short source identifier, see ContributionSource.cacheKeyPrefix (e.g. "gh") */
+  sourceKey: string;
   token: string;
-  fromDate: string; // YYYY-MM-DD
-  toDate: string;   // YYYY-MM-DD
+  /** Custom instance base URL, if any; the same token can be valid on several instances */
+  baseUrl?: string;
+  month: string; // YYYY-MM
+  /** Source options that change the data (e.g. GitLab weighting), see ContributionSource.optionParams */
+  options?: Record<string, string>;
+  /** IANA timezone days are bucketed by (omitted for UTC) */
+  timeZone?: string;
 };
 
 /**
- * Builds a cache key for per-source contribution data.
+ * Builds a cache key for one calendar month of per-source contribution data.
+ * Any requested range is assembled from these, so overlapping ranges share entries.
  *
- * Format: "contrib:{source}:{tokenHash}:{fromDate}_{toDate}"
- * Example: "contrib:gh:a7f3c9d4e2b1f8a5:2025-01-01_2025-12-31"
+ * Format: "contrib:{source}:{tokenHash}[@{baseUrlHash}]:{month}[:{options}][:tz={timeZone}]"
+ * Example: "contrib:gh:a7f3c9d4e2b1f8a5:2025-03"
+ * Example: "contrib:gl:a7f3c9d4e2b1f8a5@3b9e0c1f5d7a2e48:2025-03"
  *
  * This enables:
  * - Token-based caching (same token = cache hit, even with different users)
- * - Per-source caching (GitHub and GitLab cached independently)
- * - Date range specificity (different ranges = different cache entries)
+ * - Per-source and per-instance caching (each provider and base URL cached independently)
  * - Security (token hash prevents exposure in logs)
  *
  * @param params - Cache key parameters
  * @returns Cache key string
  */
-export function buildSourceCacheKey(params: CacheKeyParams): string {
+export function buildMonthCacheKey(params: MonthCacheKeyParams): string {
   const tokenHash = hashToken(params.token);
-  const source = params.provider === 'github' ? 'gh' : 'gl';
-  return `contrib:${source}:${tokenHash}:${params.fromDate}_${params.toDate}`;
+  const account = params.baseUrl ? `${tokenHash}@${hashToken(normalizeBaseUrl(params.baseUrl))}` : tokenHash;
+  return appendKeySuffixes(`contrib:${params.sourceKey}:${account}:${params.month}`, params);
+}
+
+/**
+ * Normalizes a base URL so spellings of the same instance share cache entries
+ * (host case, default port, trailing slashes).
+ */
+function normalizeBaseUrl(baseUrl: string): string {
+  try {
+    const url = new URL(baseUrl);
+    return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return baseUrl.replace(/\/+$/, '');
+  }
+}
+
+/**
+ * Appends the options and timezone parts of a contribution key.
+ */
+function appendKeySuffixes(key: string, params: Pick<MonthCacheKeyParams, "options" | "timeZone">): string {
+  const options = Object.entries(params.options ?? {})
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([name, value]) => `${name}=${value}`)
+    .join("&");
+
+  const withOptions = options ? `${key}:${options}` : key;
+  return params.timeZone ? `${withOptions}:tz=${params.timeZone}` : withOptions;
+}
+
+/**
+ * Builds a cache key for rendered output.
+ * The input hash covers the data and the render options, so a refreshed source
+ * (different data) or different options never hit an outdated rendering.
+ *
+ * Format: "render:{renderer}:{inputHash}"
+ * Example: "render:heatmap:9OI_UGDRJke8nFrBVs6FAJOlupKSOxzwbhgsmdxd1u0"
+ *
+ * @param renderer - Renderer and output format (e.g. "heatmap")
+ * @param input - Renderer input; serialized with sorted object keys
+ */
+export function buildRenderCacheKey(renderer: string, input: unknown): string {
+  const inputHash = createHash('sha256').update(stableStringify(input)).digest('base64url');
+  return `render:${renderer}:${inputHash}`;
+}
+
+/**
+ * JSON serialization with object keys sorted, so equal options give equal keys
+ * regardless of property order. Undefined properties are left out, as in JSON.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
 }
@@ -16,10 +16,23 @@ export interface CacheStats {
   maxSize: number | undefined;
   /** All cache keys currently stored */
   keys: string[];
+  /** Number of lookups that found a live entry */
+  hits: number;
+  /** Number of lookups that found nothing or an expired entry */
+  misses: number;
   /** Cache hit rate (hits / total requests), 0-1 range */
   hitRate: number;
 }
 
+/**
+ * A live cache entry as listed for inspection (value omitted).
+ */
+export interface CacheEntryInfo {
+  key: string;
+  /** Expiration time (epoch ms) */
+  expiresAt: number;
+}
+
 /**
  * Minimal cache interface with TTL support.
  */
@@ -28,6 +41,12 @@ export interface Cache {
   set<T>(key: string, value: T, ttlMs: number): void;
   delete(key: string): void;
   clear(): void;
+  /** Live entries, optionally only those whose key starts with prefix */
+  listEntries(prefix?: string): CacheEntryInfo[];
+  /** Deletes every entry whose key starts with prefix; returns how many were deleted */
+  deleteByPrefix(prefix: string): number;
+  /** Deletes every expired entry; returns how many were deleted */
+  deleteExpired(): number;
   /** Get cache statistics for monitoring */
   getStats(): CacheStats;
 }
@@ -49,3 +68,14 @@ export interface MemoryCacheOptions {
   maxSize?: number;
 }
 
+
+/**
+ * Options for creating a file cache instance.
+ */
+export interface FileCacheOptions extends MemoryCacheOptions {
+  /**
+   * Directory holding one file per entry. Created if missing.
+   * Processes sharing a directory share the cache.
+   */
+  directory: string;
+}
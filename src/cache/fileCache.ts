@@ -0,0 +1,360 @@
+import { createHash, randomBytes } from 'crypto';
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { unlink, utimes } from 'fs/promises';
+import { join } from 'path';
+
+import type { Cache, CacheEntryInfo, CacheStats, FileCacheOptions } from './cacheTypes';
+
+// Keys whose encoded form is longer than this are stored under a hash (file names are limited to 255 bytes)
+const MAX_ENCODED_KEY_LENGTH = 200;
+const ENTRY_SUFFIX = '.json';
+const HASHED_ENTRY_SUFFIX = '.h.json';
+
+// How often the index is rebuilt from the directory, which also removes expired entries
+const SWEEP_INTERVAL_MS = 60_000;
+// Evictions rebuild the index first unless it was rebuilt this recently
+const MIN_REBUILD_INTERVAL_MS = 5_000;
+
+/**
+ * Entry as stored on disk. The key is kept too, for hashed file names.
+ */
+type FileCacheEntry = {
+  key: string;
+  value: unknown;
+  expiresAt: number;
+};
+
+/**
+ * Entry file as tracked by the in-memory index.
+ */
+type IndexedFile = {
+  key: string;
+  expiresAt: number;
+  /** Last access by this process, or the file's modification time when another worker touched it later (epoch ms) */
+  accessTime: number;
+};
+
+/**
+ * Returns the file name for a key: the base64url key itself, or its SHA-256 when too long.
+ */
+function getFileName(key: string): string {
+  const encoded = Buffer.from(key).toString('base64url');
+  if (encoded.length <= MAX_ENCODED_KEY_LENGTH) {
+    return `${encoded}${ENTRY_SUFFIX}`;
+  }
+  return `${createHash('sha256').update(key).digest('hex')}${HASHED_ENTRY_SUFFIX}`;
+}
+
+function isEntryFile(fileName: string): boolean {
+  return fileName.endsWith(ENTRY_SUFFIX);
+}
+
+function isMissingFileError(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT';
+}
+
+/**
+ * Creates a file-backed cache with TTL support and LRU eviction.
+ *
+ * - One JSON file per entry in `directory`; entries survive process restarts.
+ * - Writes go to a temporary file first and are renamed into place, so several
+ *   workers on the same host can share the directory without reading partial entries.
+ * - Entry count and LRU order are kept in an in-memory index built from the files' modification
+ *   times, so `set` does not scan the directory. The index is rebuilt from the directory every
+ *   minute and before evicting, so entries written by other workers count towards the size
+ *   limit and the least recently used entry is evicted whichever worker wrote it.
+ * - Rebuilding also removes expired entries, so entries nobody reads again do not pile up.
+ * - Access times are also written to the files' modification times, for the other workers.
+ * - Values are stored as JSON, so `get` returns a copy of what was `set`.
+ * - Hit rate is tracked per process.
+ */
+export function createFileCache(options: FileCacheOptions): Cache {
+  const { directory, defaultTtlMs, maxSize } = options;
+
+  // Track hit/miss for metrics
+  let hits = 0;
+  let misses = 0;
+
+  // Entry files by file name, least recently used first
+  const index = new Map<string, IndexedFile>();
+  let lastRebuildAt = 0;
+
+  mkdirSync(directory, { recursive: true });
+
+  function listEntryFiles(): string[] {
+    return readdirSync(directory).filter(isEntryFile);
+  }
+
+  function removeFile(fileName: string): boolean {
+    try {
+      unlinkSync(join(directory, fileName));
+      return true;
+    } catch (error) {
+      // Another worker removed it first
+      if (isMissingFileError(error)) return false;
+      throw error;
+    }
+  }
+
+  function readEntry(fileName: string): FileCacheEntry | null {
+    try {
+      return JSON.parse(readFileSync(join(directory, fileName), 'utf8')) as FileCacheEntry;
+    } catch (error) {
+      if (isMissingFileError(error)) return null;
+      // Unreadable entries (e.g. edited by hand) are dropped
+      console.error(`[cache] Removing unreadable cache file "${fileName}":`, error);
+      removeFile(fileName);
+      return null;
+    }
+  }
+
+  /**
+   * Removes an entry file in the background; the caller has already dropped it from the index.
+   */
+  function removeFileInBackground(fileName: string): void {
+    unlink(join(directory, fileName)).catch((error) => {
+      if (!isMissingFileError(error)) {
+        console.error(`[cache] Could not remove cache file "${fileName}":`, error);
+      }
+    });
+  }
+
+  /**
+   * Returns the key stored in an entry file without reading it when the name encodes the key.
+   */
+  function getKey(fileName: string): string | null {
+    if (fileName.endsWith(HASHED_ENTRY_SUFFIX)) {
+      return readEntry(fileName)?.key ?? null;
+    }
+    return Buffer.from(fileName.slice(0, -ENTRY_SUFFIX.length), 'base64url').toString();
+  }
+
+  /**
+   * Marks a file as most recently used.
+   */
+  function touch(fileName: string, key: string, expiresAt: number, accessTime = Date.now()): void {
+    index.delete(fileName);
+    index.set(fileName, { key, expiresAt, accessTime });
+  }
+
+  /**
+   * Rebuilds the index from the directory, least recently used first: files other workers wrote
+   * are added, removed files dropped and expired entries removed. Only files modified since this
+   * process last accessed them are read. Returns how many expired entries were removed.
+   */
+  function rebuildIndex(): number {
+    const files = listEntryFiles()
+      .map((fileName) => {
+        try {
+          const modifiedAt = statSync(join(directory, fileName)).mtimeMs;
+          const indexed = index.get(fileName);
+          // Unchanged since our last access, so the indexed entry is still current
+          const current = indexed && modifiedAt <= indexed.accessTime ? indexed : null;
+          return { fileName, current, accessTime: Math.max(modifiedAt, indexed?.accessTime ?? 0) };
+        } catch (error) {
+          if (isMissingFileError(error)) return null;
+          throw error;
+        }
+      })
+      .filter((file) => file !== null)
+      .sort((a, b) => a.accessTime - b.accessTime);
+
+    const now = Date.now();
+    let expired = 0;
+    index.clear();
+
+    for (const { fileName, current, accessTime } of files) {
+      const entry = current ?? readEntry(fileName);
+      if (!entry) continue;
+
+      if (now >= entry.expiresAt) {
+        if (removeFile(fileName)) expired++;
+      } else {
+        touch(fileName, entry.key, entry.expiresAt, accessTime);
+      }
+    }
+
+    lastRebuildAt = now;
+    return expired;
+  }
+
+  /**
+   * Evicts least recently used entries until `room` more fit.
+   * The index is rebuilt first (at most every MIN_REBUILD_INTERVAL_MS), so the limit covers
+   * the entries of every worker sharing the directory.
+   */
+  function evictLRU(room: number): void {
+    if (!maxSize) {
+      return;
+    }
+
+    // Other workers may have filled the directory even when this index has room
+    if (Date.now() - lastRebuildAt >= MIN_REBUILD_INTERVAL_MS) {
+      rebuildIndex();
+    }
+
+    for (const [fileName, { key }] of index) {
+      if (index.size + room <= maxSize) break;
+      index.delete(fileName);
+      removeFileInBackground(fileName);
+      console.log(`[cache] LRU eviction: removed "${key}"`);
+    }
+  }
+
+  /**
+   * Periodic sweep: rebuilds the index, which removes expired entries, then trims the directory
+   * to maxSize, since other workers may have filled it.
+   */
+  function sweep(): void {
+    try {
+      const expired = rebuildIndex();
+      evictLRU(0);
+      if (expired > 0) {
+        console.log(`[cache] Sweep removed ${expired} expired entries from "${directory}"`);
+      }
+    } catch (error) {
+      console.error(`[cache] Sweep of "${directory}" failed:`, error);
+    }
+  }
+
+  rebuildIndex();
+  // The sweep must not keep the process alive on shutdown
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+
+  return {
+    get<T>(key: string): T | null {
+      const fileName = getFileName(key);
+      const entry = readEntry(fileName);
+
+      // Hashed names could collide in theory, so the stored key must match
+      if (!entry || entry.key !== key) {
+        if (!entry) index.delete(fileName);
+        misses++;
+        console.log(`[cache] MISS key="${key}"`);
+        return null;
+      }
+
+      if (Date.now() >= entry.expiresAt) {
+        index.delete(fileName);
+        removeFileInBackground(fileName);
+        misses++;
+        console.log(`[cache] EXPIRED key="${key}"`);
+        return null;
+      }
+
+      // Update access time for LRU tracking; the file's copy is what other workers see
+      const now = new Date();
+      touch(fileName, key, entry.expiresAt, now.getTime());
+      utimes(join(directory, fileName), now, now).catch((error) => {
+        if (!isMissingFileError(error)) {
+          console.error(`[cache] Could not update access time of "${fileName}":`, error);
+        }
+      });
+      hits++;
+
+      const remainingTtl = entry.expiresAt - Date.now();
+      console.log(`[cache] HIT key="${key}" (expires in ${remainingTtl}ms)`);
+      return entry.value as T;
+    },
+
+    set<T>(key: string, value: T, ttlMs?: number): void {
+      const ttl = ttlMs ?? defaultTtlMs;
+
+      if (ttl === undefined || ttl <= 0) {
+        throw new Error(
+          `Invalid TTL for cache key "${key}": ttlMs must be a positive number`
+        );
+      }
+
+      // Evict LRU entries if at capacity; overwriting an entry needs no room
+      const fileName = getFileName(key);
+      if (!index.has(fileName)) {
+        evictLRU(1);
+      }
+
+      const entry: FileCacheEntry = {
+        key,
+        value,
+        expiresAt: Date.now() + ttl,
+      };
+
+      // Temporary names never end in ENTRY_SUFFIX, so other workers ignore them
+      const tempPath = join(directory, `${fileName}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`);
+      writeFileSync(tempPath, JSON.stringify(entry));
+      renameSync(tempPath, join(directory, fileName));
+      touch(fileName, key, entry.expiresAt);
+      console.log(`[cache] SET key="${key}" ttl=${ttl}ms`);
+    },
+
+    delete(key: string): void {
+      const fileName = getFileName(key);
+      index.delete(fileName);
+      const existed = removeFile(fileName);
+      console.log(`[cache] DELETE key="${key}" existed=${existed}`);
+    },
+
+    clear(): void {
+      const fileNames = listEntryFiles();
+      fileNames.forEach(removeFile);
+      index.clear();
+      hits = 0;
+      misses = 0;
+      console.log(`[cache] CLEAR removed ${fileNames.length} entries`);
+    },
+
+    listEntries(prefix = ''): CacheEntryInfo[] {
+      const now = Date.now();
+      const entries: CacheEntryInfo[] = [];
+
+      for (const fileName of listEntryFiles()) {
+        // Skip reading files whose name already rules them out
+        const key = fileName.endsWith(HASHED_ENTRY_SUFFIX) ? null : getKey(fileName);
+        if (key !== null && !key.startsWith(prefix)) continue;
+
+        const entry = readEntry(fileName);
+        if (entry && entry.key.startsWith(prefix) && now < entry.expiresAt) {
+          entries.push({ key: entry.key, expiresAt: entry.expiresAt });
+        }
+      }
+
+      return entries;
+    },
+
+    deleteByPrefix(prefix: string): number {
+      const fileNames = listEntryFiles().filter((fileName) => getKey(fileName)?.startsWith(prefix));
+      fileNames.forEach((fileName) => index.delete(fileName));
+      const deleted = fileNames.filter(removeFile).length;
+      console.log(`[cache] DELETE prefix="${prefix}" removed ${deleted} entries`);
+      return deleted;
+    },
+
+    deleteExpired(): number {
+      // Rebuilding covers the entries of other workers too
+      const deleted = rebuildIndex();
+      console.log(`[cache] DELETE expired removed ${deleted} entries`);
+      return deleted;
+    },
+
+    getStats(): CacheStats {
+      const totalRequests = hits + misses;
+      const keys = [...index.values()].map((file) => file.key);
+
+      return {
+        size: keys.length,
+        maxSize,
+        keys,
+        hits,
+        misses,
+        hitRate: totalRequests > 0 ? hits / totalRequests : 0,
+      };
+    },
+  };
+}
@@ -1,3 +1,4 @@
-export type { Cache, CacheEntry, MemoryCacheOptions } from './cacheTypes';
+export type { Cache, CacheEntry, CacheEntryInfo, CacheStats, MemoryCacheOptions, FileCacheOptions } from './cacheTypes';
 export { createMemoryCache } from './memoryCache';
-
+export { createFileCache } from './fileCache';
+export { createRenderCache, type RenderCache } from './renderCache';
@@ -1,4 +1,4 @@
-import type { Cache, CacheEntry, MemoryCacheOptions, CacheStats } from './cacheTypes';
+import type { Cache, CacheEntry, CacheEntryInfo, MemoryCacheOptions, CacheStats } from './cacheTypes';
 
 /**
  * Creates a Map-based in-memory cache with TTL support and LRU eviction.
@@ -114,12 +114,42 @@ export function createMemoryCache(options: MemoryCacheOptions = {}): Cache {
       console.log(`[cache] CLEAR removed ${prevSize} entries`);
     },
 
+    listEntries(prefix = ''): CacheEntryInfo[] {
+      return Array.from(store.entries())
+        .filter(([key, entry]) => key.startsWith(prefix) && !isExpired(entry))
+        .map(([key, entry]) => ({ key, expiresAt: entry.expiresAt }));
+    },
+
+    deleteByPrefix(prefix: string): number {
+      const keys = Array.from(store.keys()).filter((key) => key.startsWith(prefix));
+      for (const key of keys) {
+        store.delete(key);
+        accessTimes.delete(key);
+      }
+      console.log(`[cache] DELETE prefix="${prefix}" removed ${keys.length} entries (store size: ${store.size})`);
+      return keys.length;
+    },
+
+    deleteExpired(): number {
+      const keys = Array.from(store.entries())
+        .filter(([, entry]) => isExpired(entry))
+        .map(([key]) => key);
+      for (const key of keys) {
+        store.delete(key);
+        accessTimes.delete(key);
+      }
+      console.log(`[cache] DELETE expired removed ${keys.length} entries (store size: ${store.size})`);
+      return keys.length;
+    },
+
     getStats(): CacheStats {
       const totalRequests = hits + misses;
       return {
         size: store.size,
         maxSize,
         keys: Array.from(store.keys()),
+        hits,
+        misses,
         hitRate: totalRequests > 0 ? hits / totalRequests : 0,
       };
     },
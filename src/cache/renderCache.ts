@@ -0,0 +1,48 @@
+import type { Cache } from './cacheTypes';
+import { buildRenderCacheKey } from './cacheKeys';
+
+/**
+ * Second cache tier holding rendered output (SVG and other formats).
+ */
+export type RenderCache = {
+  /**
+   * Returns the cached output for a renderer and input, rendering and storing it on a miss.
+   *
+   * @param renderer - Renderer and output format, part of the key (e.g. "heatmap")
+   * @param input - Everything the output depends on: data and render options
+   * @param render - Pure render function producing the output from the input
+   */
+  render<TInput>(renderer: string, input: TInput, render: (input: TInput) => string): string;
+};
+
+type RenderCacheDependencies = {
+  /** Dedicated store, so its stats count renders only */
+  store: Cache;
+  ttlMs: number;
+};
+
+/**
+ * Creates a render cache on top of a Cache.
+ *
+ * Keys hash the renderer input, so entries never need explicit invalidation: when a
+ * source entry is refreshed, the merged data changes and maps to a new key, while
+ * the outdated rendering ages out through TTL and LRU eviction.
+ */
+export function createRenderCache(deps: RenderCacheDependencies): RenderCache {
+  const { store, ttlMs } = deps;
+
+  return {
+    render<TInput>(renderer: string, input: TInput, render: (input: TInput) => string): string {
+      const key = buildRenderCacheKey(renderer, input);
+
+      const cached = store.get<string>(key);
+      if (cached !== null) {
+        return cached;
+      }
+
+      const output = render(input);
+      store.set(key, output, ttlMs);
+      return output;
+    },
+  };
+}
@@ -2,13 +2,23 @@ import type { Provider } from "./provider";
 
 // Domain types shared across sources, services, and render.
 
+/**
+ * Kinds of contribution a source may break its daily counts into.
+ * "other" holds whatever a source counts but does not classify (e.g. repository creation).
+ */
+export const CONTRIBUTION_TYPES = ["commits", "pullRequests", "reviews", "issues", "other"] as const;
+
+export type ContributionType = (typeof CONTRIBUTION_TYPES)[number];
+
 export type ContributionDay = {
   dateIso: string;
   count: number;
-  /** GitHub contribution count for this day (optional, used by "default" theme) */
-  githubCount?: number;
-  /** GitLab contribution count for this day (optional, used by "default" theme) */
-  gitlabCount?: number;
+  /** Per-provider contribution counts for this day (optional, used by "default" theme) */
+  sourceCounts?: Partial<Record<Provider, number>>;
+  /** Per-account contribution counts, keyed by account label (optional, used in tooltips) */
+  accountCounts?: Record<string, number>;
+  /** Per-type contribution counts for this day (optional, only sources that classify contributions) */
+  typeCounts?: Partial<Record<ContributionType, number>>;
 };
 
 export type ContributionHistoryPoint = {
@@ -21,12 +31,16 @@ export type ContributionQuery = {
   user: string;
   fromDate: string; // YYYY-MM-DD
   toDate: string;   // YYYY-MM-DD
+  /** IANA timezone that contributions are bucketed into days by (UTC when omitted) */
+  timeZone?: string;
 };
 
 export type ContributionData = {
   provider: Provider;
   user: string;
   days: ContributionDay[];
+  /** Why some contributions may be missing (e.g. a listing cut off by a safety limit); reported as a partial failure */
+  incomplete?: string;
 };
 
 export type ContributionHistory = {
@@ -1,3 +1,7 @@
-export type Provider = "github" | "gitlab";
-
+/**
+ * Identifiers of the contribution sources. Each has a source registered in the
+ * composition root, see sources/contributionSource.ts; a new source adds its identifier here.
+ */
+export const PROVIDERS = ["github", "gitlab", "gitea", "bitbucket", "localgit", "import"] as const;
 
+export type Provider = (typeof PROVIDERS)[number];
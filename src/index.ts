@@ -1,59 +1,245 @@
+import { join } from "path";
+
 import { createServer } from "./server/createServer";
 import { createRouter } from "./server/router";
 
 import { createHeatmapController } from "./api/heatmapController";
 import { createHistoryController } from "./api/historyController";
-import { createArtController } from "./api/artController";
+import { ART_CACHE_CONTROL_POLICY, createArtController } from "./api/artController";
+import { createImportController } from "./api/importController";
+import { createProfileController } from "./api/profileController";
+import { createSealController } from "./api/sealController";
+import { createAdminController } from "./api/adminController";
 
 import { createContributionService } from "./services/contributionService";
-import { createMemoryCache } from "./cache";
+import { createImportService } from "./services/importService";
+import { createProfileService } from "./services/profileService";
+import { createSealService } from "./services/sealService";
+import { createFileCache, createMemoryCache, createRenderCache, type Cache, type MemoryCacheOptions } from "./cache";
 
+import { createSourceRegistry } from "./sources/contributionSource";
+import { GITHUB_GRAPHQL_ENDPOINT } from "./sources/github/githubClient";
+import { DEFAULT_GITLAB_BASE_URL } from "./sources/gitlab/gitlabClient";
+import { DEFAULT_GITEA_BASE_URL } from "./sources/gitea/giteaClient";
+import { DEFAULT_BITBUCKET_BASE_URL } from "./sources/bitbucket/bitbucketClient";
 import { createGitHubService } from "./sources/github/githubService";
+import { createGitHubSource } from "./sources/github/githubSource";
 import { createGitLabService } from "./sources/gitlab/gitlabService";
+import { createGitLabSource } from "./sources/gitlab/gitlabSource";
+import { createGiteaService } from "./sources/gitea/giteaService";
+import { createGiteaSource } from "./sources/gitea/giteaSource";
+import { createBitbucketService } from "./sources/bitbucket/bitbucketService";
+import { createBitbucketSource } from "./sources/bitbucket/bitbucketSource";
+import { createLocalGitService } from "./sources/localgit/localGitService";
+import { createLocalGitSource } from "./sources/localgit/localGitSource";
+import { createImportSource } from "./sources/import/importSource";
+import { createCircuitBreakers } from "./utils/circuitBreaker";
+import { deriveKey } from "./utils/crypto";
+import { DEFAULT_CACHE_CONTROL_POLICY, type CacheControlPolicy } from "./utils/network";
 
 const port = Number(process.env.PORT ?? "3000");
 
 // Composition root. All concrete implementations are wired here.
 // Services are created without default tokens and use per-request tokens from query parameters.
-const githubService = createGitHubService({});
+// Create cache with configurable TTL and max size
+const defaultTtlMs = Number(process.env.CACHE_TTL_MS ?? '86400000'); // 24 hours default
+const maxSize = Number(process.env.CACHE_MAX_SIZE ?? '10000'); // 10k entries default
+
+// CACHE_BACKEND=file keeps every cache store on disk (one subdirectory each), surviving restarts
+// and shared by workers on the same host; "memory" (default) resets on restart
+const cacheBackend = process.env.CACHE_BACKEND ?? 'memory';
+const cacheDir = process.env.CACHE_DIR ?? '.cache';
+if (cacheBackend !== 'memory' && cacheBackend !== 'file') {
+  throw new Error(`Invalid CACHE_BACKEND "${cacheBackend}". Valid options: memory, file`);
+}
+
+function createStore(name: string, options: MemoryCacheOptions): Cache {
+  return cacheBackend === 'file'
+    ? createFileCache({ ...options, directory: join(cacheDir, name) })
+    : createMemoryCache(options);
+}
+
+// User data (imports, profiles) always lives on disk under DATA_DIR, whatever CACHE_BACKEND is,
+// and is never evicted; the services refuse new entries when their limit is reached
+const dataDir = process.env.DATA_DIR ?? '.data';
+
+function createDataStore(name: string): Cache {
+  return createFileCache({ directory: join(dataDir, name) });
+}
+
+const cache = createStore('contributions', { defaultTtlMs, maxSize });
+
+// Second tier for rendered SVGs, keyed by a hash of the data and render options
+const renderCacheMaxSize = Number(process.env.RENDER_CACHE_MAX_SIZE ?? '1000');
+const renderCacheStore = createStore('renders', { maxSize: renderCacheMaxSize });
+const renderCache = createRenderCache({ store: renderCacheStore, ttlMs: defaultTtlMs });
+
+// Upstream hosts that keep failing are skipped for a while, so requests fail fast instead of
+// waiting for timeouts; stale cached data is still served meanwhile
+const circuitFailureThreshold = Number(process.env.CIRCUIT_FAILURE_THRESHOLD ?? '5');
+const circuitResetMs = Number(process.env.CIRCUIT_RESET_MS ?? '30000');
+const circuitBreakers = createCircuitBreakers({
+  failureThreshold: circuitFailureThreshold,
+  resetTimeoutMs: circuitResetMs,
+});
+
+// /health only reports the configured upstreams, not hosts named by per-request base URLs
+const upstreamHosts = [
+  GITHUB_GRAPHQL_ENDPOINT,
+  process.env.GITLAB_BASE_URL ?? DEFAULT_GITLAB_BASE_URL,
+  process.env.GITEA_BASE_URL ?? DEFAULT_GITEA_BASE_URL,
+  process.env.BITBUCKET_BASE_URL ?? DEFAULT_BITBUCKET_BASE_URL,
+].map((url) => new URL(url).host);
+
+const githubService = createGitHubService({
+  circuitBreakers,
+  concurrency: process.env.GITHUB_CONCURRENCY ? Number(process.env.GITHUB_CONCURRENCY) : undefined,
+});
 
 const gitlabService = createGitLabService({
   baseUrl: process.env.GITLAB_BASE_URL,
+  circuitBreakers,
+  eventsRetentionDays: process.env.GITLAB_EVENTS_RETENTION_DAYS
+    ? Number(process.env.GITLAB_EVENTS_RETENTION_DAYS)
+    : undefined,
+  concurrency: process.env.GITLAB_CONCURRENCY ? Number(process.env.GITLAB_CONCURRENCY) : undefined,
 });
 
-// Create cache with configurable TTL and max size
-const defaultTtlMs = Number(process.env.CACHE_TTL_MS ?? '86400000'); // 24 hours default
-const maxSize = Number(process.env.CACHE_MAX_SIZE ?? '10000'); // 10k entries default
-const cache = createMemoryCache({ defaultTtlMs, maxSize });
+const giteaService = createGiteaService({
+  baseUrl: process.env.GITEA_BASE_URL,
+  circuitBreakers,
+});
+
+const bitbucketService = createBitbucketService({
+  baseUrl: process.env.BITBUCKET_BASE_URL,
+  circuitBreakers,
+  concurrency: process.env.BITBUCKET_CONCURRENCY ? Number(process.env.BITBUCKET_CONCURRENCY) : undefined,
+});
+
+// Local git repositories are only read from this server-side allowlist (comma-separated paths)
+const localGitRepoPaths = (process.env.LOCAL_GIT_REPOS ?? '')
+  .split(',')
+  .map((path) => path.trim())
+  .filter((path) => path !== '');
+
+// Uploaded contribution data (POST /import)
+const importMaxSize = Number(process.env.IMPORT_MAX_SIZE ?? '1000');
+const importService = createImportService({
+  store: createDataStore('imports'),
+  maxImports: importMaxSize,
+});
+
+// Profiles keep encrypted tokens server-side; they are only enabled with a server secret
+const profileSecret = process.env.PROFILE_ENCRYPTION_KEY;
+const profileMaxSize = Number(process.env.PROFILE_MAX_SIZE ?? '10000');
+const profileService = profileSecret
+  ? createProfileService({
+      store: createDataStore('profiles'),
+      maxProfiles: profileMaxSize,
+      encryptionKey: deriveKey(profileSecret, 'profiles'),
+    })
+  : undefined;
+
+// Sealed parameters are stateless: tokens travel encrypted in the URL, keyed by a server secret
+const sealSecret = process.env.SEAL_ENCRYPTION_KEY;
+const sealService = sealSecret
+  ? createSealService({ encryptionKey: deriveKey(sealSecret, 'sealed') })
+  : undefined;
 
 // Log available services at startup
 console.log(`[config] GitHub service: enabled (token-per-request mode)`);
 console.log(`[config] GitLab service: enabled (token-per-request mode)`);
-console.log(`[config] Memory cache: enabled (TTL: ${defaultTtlMs}ms, max size: ${maxSize})`);
+console.log(`[config] Gitea service: enabled (token-per-request mode)`);
+console.log(`[config] Bitbucket service: enabled (token-per-request mode)`);
+console.log(`[config] Local git service: ${localGitRepoPaths.length > 0 ? `enabled (${localGitRepoPaths.length} repositories)` : 'disabled (LOCAL_GIT_REPOS not set)'}`);
+console.log(`[config] Data directory: ${dataDir} (imports, profiles)`);
+console.log(`[config] Profiles: ${profileService ? `enabled (max ${profileMaxSize})` : 'disabled (PROFILE_ENCRYPTION_KEY not set)'}`);
+console.log(`[config] Sealed parameters: ${sealService ? 'enabled' : 'disabled (SEAL_ENCRYPTION_KEY not set)'}`);
+console.log(
+  cacheBackend === 'file'
+    ? `[config] File cache: enabled (directory: ${cacheDir}, TTL: ${defaultTtlMs}ms, max size: ${maxSize})`
+    : `[config] Memory cache: enabled (TTL: ${defaultTtlMs}ms, max size: ${maxSize})`
+);
+console.log(`[config] Render cache: enabled (max size: ${renderCacheMaxSize})`);
+console.log(`[config] Circuit breakers: enabled (open after ${circuitFailureThreshold} failures, probe after ${circuitResetMs}ms)`);
+console.log(`[config] Admin routes: ${process.env.ADMIN_KEY ? 'enabled' : 'disabled (ADMIN_KEY not set)'}`);
 if (process.env.GITLAB_BASE_URL) {
   console.log(`[config] GitLab base URL: ${process.env.GITLAB_BASE_URL}`);
 }
+if (process.env.GITEA_BASE_URL) {
+  console.log(`[config] Gitea base URL: ${process.env.GITEA_BASE_URL}`);
+}
+
+// Every registered source is read from its credential query parameter and merged into the result.
+const sourceRegistry = createSourceRegistry([
+  createGitHubSource(githubService),
+  createGitLabSource(gitlabService),
+  createGiteaSource(giteaService),
+  createBitbucketSource(bitbucketService),
+  createImportSource(importService),
+]);
+
+if (localGitRepoPaths.length > 0) {
+  sourceRegistry.register(createLocalGitSource(createLocalGitService({ repoPaths: localGitRepoPaths })));
+}
 
 const contributionService = createContributionService({
-  githubService,
-  gitlabService,
+  registry: sourceRegistry,
   cache,
+  profiles: profileService,
+  staleGraceMs: process.env.CACHE_STALE_GRACE_MS ? Number(process.env.CACHE_STALE_GRACE_MS) : undefined,
 });
 
+// Browser/CDN caching per endpoint: <ENDPOINT>_MAX_AGE for data that can still change,
+// <ENDPOINT>_FINAL_MAX_AGE (immutable) for past ranges; both in seconds
+function readCacheControlPolicy(endpoint: string, defaults: CacheControlPolicy): CacheControlPolicy {
+  const maxAge = process.env[`${endpoint}_MAX_AGE`];
+  const finalMaxAge = process.env[`${endpoint}_FINAL_MAX_AGE`];
+  return {
+    maxAgeSeconds: maxAge ? Number(maxAge) : defaults.maxAgeSeconds,
+    finalMaxAgeSeconds: finalMaxAge ? Number(finalMaxAge) : defaults.finalMaxAgeSeconds,
+  };
+}
+
 // Controllers are "included routers" that handle the request and response.
-const heatmapController = createHeatmapController({ contributionService });
-const historyController = createHistoryController({ contributionService });
-const artController = createArtController();
+const heatmapController = createHeatmapController({
+  contributionService,
+  sealService,
+  cacheControl: readCacheControlPolicy('HEATMAP', DEFAULT_CACHE_CONTROL_POLICY),
+  renderCache,
+});
+const historyController = createHistoryController({
+  contributionService,
+  sealService,
+  cacheControl: readCacheControlPolicy('HISTORY', DEFAULT_CACHE_CONTROL_POLICY),
+  renderCache,
+});
+const artController = createArtController({
+  cacheControl: readCacheControlPolicy('ART', ART_CACHE_CONTROL_POLICY),
+  renderCache,
+});
+const importController = createImportController({ importService });
+const profileController = createProfileController({ contributionService, profileService });
+const sealController = createSealController({ contributionService, sealService });
+const adminController = createAdminController({
+  adminKey: process.env.ADMIN_KEY,
+  caches: { contributions: cache, renders: renderCacheStore },
+  contributionService,
+});
 
 // Router is a composition root for the application. It encapsulates the controllers and the routes.
 const router = createRouter({
   heatmapController,
   historyController,
   artController,
+  importController,
+  profileController,
+  sealController,
+  adminController,
 });
 
 // Server is created with the router.
-const app = createServer({ router });
+const app = createServer({ router, sources: sourceRegistry.list(), circuitBreakers, upstreamHosts });
 
 app.listen(port, () => {
   console.log(`[server] listening on :${port}`);
@@ -0,0 +1,82 @@
+// Error card SVG rendering, shown in place of a chart when a request fails.
+
+import { escapeXml } from "../shared/svgText";
+
+export type ErrorCardInput = {
+  /** Short headline, e.g. "Rate limited" */
+  title: string;
+  /** Explanation, wrapped onto up to MAX_MESSAGE_LINES lines */
+  message: string;
+  /** Machine-readable code shown small in the corner, e.g. "rateLimited · 429" */
+  code: string;
+};
+
+const CARD_WIDTH = 420;
+const PADDING = 16;
+const TITLE_FONT_SIZE = 14;
+const MESSAGE_FONT_SIZE = 12;
+const LINE_HEIGHT = 16;
+const MAX_MESSAGE_LINES = 3;
+const FONT_FAMILY = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Helvetica, Arial, sans-serif";
+
+// Average glyph width relative to the font size, to estimate how many characters fit on a line
+const CHAR_WIDTH_RATIO = 0.55;
+
+/**
+ * Splits text into lines that fit the card, cutting the last line with an ellipsis when it is too long.
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter((w) => w !== "")) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = word.length > maxChars ? `${word.slice(0, maxChars - 1)}…` : word;
+  }
+  if (current) lines.push(current);
+
+  if (lines.length <= maxLines) return lines;
+
+  const kept = lines.slice(0, maxLines);
+  const last = kept[maxLines - 1];
+  kept[maxLines - 1] = `${last.length < maxChars ? last : last.slice(0, maxChars - 1)}…`;
+  return kept;
+}
+
+/**
+ * Renders an error card SVG.
+ */
+export function renderErrorCardSvg(input: ErrorCardInput): string {
+  const maxChars = Math.floor((CARD_WIDTH - 2 * PADDING) / (MESSAGE_FONT_SIZE * CHAR_WIDTH_RATIO));
+  const lines = wrapText(input.message, maxChars, MAX_MESSAGE_LINES);
+
+  const titleY = PADDING + TITLE_FONT_SIZE;
+  const messageY = titleY + LINE_HEIGHT + 4;
+  const codeY = messageY + lines.length * LINE_HEIGHT + 6;
+  const height = codeY + PADDING - 4;
+
+  const messageLines = lines
+    .map((line, index) => `    <tspan x="${PADDING}" y="${messageY + index * LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join("\n");
+
+  return `<svg 
+  xmlns="http://www.w3.org/2000/svg" 
+  width="${CARD_WIDTH}" 
+  height="${height}" 
+  viewBox="0 0 ${CARD_WIDTH} ${height}"
+  role="img"
+  aria-label="${escapeXml(`${input.title}: ${input.message}`)}">
+  <rect x="0.5" y="0.5" width="${CARD_WIDTH - 1}" height="${height - 1}" rx="6" fill="#ffffff" stroke="#d0d7de" />
+  <rect x="0" y="0" width="4" height="${height}" rx="2" fill="#cf222e" />
+  <text x="${PADDING}" y="${titleY}" font-size="${TITLE_FONT_SIZE}" font-weight="600" font-family="${FONT_FAMILY}" fill="#24292f">${escapeXml(input.title)}</text>
+  <text font-size="${MESSAGE_FONT_SIZE}" font-family="${FONT_FAMILY}" fill="#57606a">
+${messageLines}
+  </text>
+  <text x="${CARD_WIDTH - PADDING}" y="${codeY}" font-size="10" font-family="${FONT_FAMILY}" fill="#8c959f" text-anchor="end">${escapeXml(input.code)}</text>
+</svg>`;
+}
@@ -0,0 +1,3 @@
+// Re-exports for error card module.
+
+export { renderErrorCardSvg, type ErrorCardInput } from "./errorCardRenderer";
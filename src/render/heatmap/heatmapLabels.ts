@@ -8,9 +8,42 @@ import type { HeatmapConfig } from "./heatmapConfig";
 const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
 const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
 
+// Weeks in the longest single-year view (a rolling year can touch 54 week columns)
+const MAX_SINGLE_YEAR_WEEKS = 54;
+
+// Space for the "Less"/"More" labels around the standard legend
+const LEGEND_LESS_LABEL_WIDTH = 30;
+const LEGEND_MORE_LABEL_WIDTH = 40;
+
+// "default" theme legend sections with approximate label widths;
+// local git and import are only listed when the chart has their contributions
+const DEFAULT_LEGEND_SECTIONS = [
+  { source: "github", label: "GitHub", labelWidth: 38, onlyWhenPresent: false },
+  { source: "gitlab", label: "GitLab", labelWidth: 38, onlyWhenPresent: false },
+  { source: "gitea", label: "Gitea", labelWidth: 30, onlyWhenPresent: false },
+  { source: "bitbucket", label: "Bitbucket", labelWidth: 50, onlyWhenPresent: false },
+  { source: "localgit", label: "Local git", labelWidth: 46, onlyWhenPresent: true },
+  { source: "import", label: "Import", labelWidth: 36, onlyWhenPresent: true },
+  { source: "mixed", label: "Mixed", labelWidth: 32, onlyWhenPresent: false },
+] as const;
+const DEFAULT_LEGEND_SECTION_GAP = 16;
+
+type DefaultLegendSection = (typeof DEFAULT_LEGEND_SECTIONS)[number];
+
+/**
+ * Returns the "default" theme legend sections to show for the given days.
+ */
+function getDefaultLegendSections(days: ContributionDay[]): DefaultLegendSection[] {
+  return DEFAULT_LEGEND_SECTIONS.filter((section) =>
+    !section.onlyWhenPresent ||
+    days.some((day) => (day.sourceCounts?.[section.source] ?? 0) > 0)
+  );
+}
+
 /**
  * Renders month labels at the top of the heatmap.
  * For rolling years, each month name appears only once (prefers later occurrence).
+ * Longer ranges label every month, with January shown as the year.
  */
 export function renderMonthLabels(
   weeks: ContributionDay[][],
@@ -18,6 +51,10 @@ export function renderMonthLabels(
 ): string {
   if (!config.showMonthLabels || weeks.length === 0) return "";
 
+  if (weeks.length > MAX_SINGLE_YEAR_WEEKS) {
+    return renderMultiYearMonthLabels(weeks, config);
+  }
+
   // First pass: find all year-month transitions and their week indices
   const yearMonthTransitions = new Map<string, number>(); // "year-month" -> weekIndex
   let lastYearMonth = "";
@@ -74,6 +111,45 @@ export function renderMonthLabels(
   return `  <g class="month-labels">\n${labels.join("\n")}\n  </g>`;
 }
 
+/**
+ * Renders a label at every month transition; January is labeled with its year.
+ * Months too close to the previous label (e.g. a partial first month) are skipped.
+ */
+function renderMultiYearMonthLabels(
+  weeks: ContributionDay[][],
+  config: HeatmapConfig
+): string {
+  const weekWidth = config.cellSize + config.cellGap;
+  const minLabelGap = 3; // weeks
+  const labels: string[] = [];
+  let lastYearMonth = "";
+  let lastLabelWeek = -Infinity;
+
+  weeks.forEach((week, weekIndex) => {
+    for (const day of week) {
+      const date = new Date(day.dateIso);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const yearMonth = `${year}-${month}`;
+      if (yearMonth === lastYearMonth) continue;
+
+      lastYearMonth = yearMonth;
+      if (weekIndex - lastLabelWeek < minLabelGap) break;
+
+      lastLabelWeek = weekIndex;
+      const x = config.margin.left + weekIndex * weekWidth;
+      const y = config.margin.top - 6;
+      const text = month === 0 ? String(year) : MONTH_LABELS[month];
+      labels.push(
+        `    <text x="${x}" y="${y}" font-size="${config.fontSize}" font-family="${config.fontFamily}" fill="${config.labelColor}">${text}</text>`
+      );
+      break;
+    }
+  });
+
+  return `  <g class="month-labels">\n${labels.join("\n")}\n  </g>`;
+}
+
 /**
  * Renders day-of-week labels on the left side (Mon, Wed, Fri).
  */
@@ -96,18 +172,42 @@ export function renderDayLabels(config: HeatmapConfig): string {
   return `  <g class="day-labels">\n${labels.join("\n")}\n  </g>`;
 }
 
+/**
+ * Returns the SVG width needed to fit the legend, including margins.
+ * Used as the minimum heatmap width for short ranges.
+ */
+export function getLegendMinWidth(config: HeatmapConfig, days: ContributionDay[]): number {
+  if (!config.showLegend) return 0;
+
+  const legendGap = 3;
+  if (config.theme === "default") {
+    const palettes = getDefaultThemePalettes();
+    const colorsWidth = (palettes.github.length - 1) * (config.cellSize + legendGap) - legendGap;
+    const sectionsWidth = getDefaultLegendSections(days).reduce(
+      (sum, section) => sum + section.labelWidth + 4 + colorsWidth + DEFAULT_LEGEND_SECTION_GAP,
+      -DEFAULT_LEGEND_SECTION_GAP
+    );
+    return config.margin.left + sectionsWidth + config.margin.right;
+  }
+
+  const colors = getColorPalette(config.theme);
+  const legendWidth = colors.length * (config.cellSize + legendGap) - legendGap;
+  return LEGEND_LESS_LABEL_WIDTH + legendWidth + LEGEND_MORE_LABEL_WIDTH + config.margin.right;
+}
+
 /**
  * Renders the color legend at the bottom of the heatmap.
  */
 export function renderLegend(
   dimensions: Dimensions,
-  config: HeatmapConfig
+  config: HeatmapConfig,
+  days: ContributionDay[]
 ): string {
   if (!config.showLegend) return "";
 
   // "default" theme has a special multi-row legend
   if (config.theme === "default") {
-    return renderDefaultThemeLegend(dimensions, config);
+    return renderDefaultThemeLegend(dimensions, config, days);
   }
 
   const colors = getColorPalette(config.theme);
@@ -116,7 +216,7 @@ export function renderLegend(
   const legendWidth = colors.length * (legendCellSize + legendGap) - legendGap;
 
   // Position legend at bottom right
-  const startX = dimensions.width - config.margin.right - legendWidth - 40;
+  const startX = dimensions.width - config.margin.right - legendWidth - LEGEND_MORE_LABEL_WIDTH;
   const y = dimensions.height - config.margin.bottom + 12;
 
   const cells: string[] = [];
@@ -144,34 +244,30 @@ export function renderLegend(
 }
 
 /**
- * Renders a horizontal legend for the "default" theme showing all three color scales.
- * Layout: GitHub [□□□□]  GitLab [□□□□]  Mixed [□□□□]
+ * Renders a horizontal legend for the "default" theme showing all source color scales.
+ * Layout: GitHub [□□□□]  GitLab [□□□□]  Gitea [□□□□]  Bitbucket [□□□□]  Mixed [□□□□]
+ * Local git and Import sections are added before Mixed when the days include their contributions.
  */
 function renderDefaultThemeLegend(
   dimensions: Dimensions,
-  config: HeatmapConfig
+  config: HeatmapConfig,
+  days: ContributionDay[]
 ): string {
   const palettes = getDefaultThemePalettes();
   const legendCellSize = config.cellSize;
   const legendGap = 3;
-  const sectionGap = 16; // Gap between each label+colors section
+  const sectionGap = DEFAULT_LEGEND_SECTION_GAP; // Gap between each label+colors section
 
   // Skip the first color (empty day) for the legend display
-  const githubColors = palettes.github.slice(1);
-  const gitlabColors = palettes.gitlab.slice(1);
-  const mixedColors = palettes.mixed.slice(1);
-
-  const sections = [
-    { label: "GitHub", colors: githubColors },
-    { label: "GitLab", colors: gitlabColors },
-    { label: "Mixed", colors: mixedColors },
-  ];
+  const sections = getDefaultLegendSections(days).map((section) => ({
+    ...section,
+    colors: palettes[section.source].slice(1),
+  }));
 
   // Calculate total width needed
-  const labelWidths = [38, 38, 32]; // Approximate widths for "GitHub", "GitLab", "Mixed"
-  const colorsWidth = githubColors.length * (legendCellSize + legendGap) - legendGap;
-  const totalWidth = sections.reduce((sum, _, i) => 
-    sum + labelWidths[i] + 4 + colorsWidth + (i < sections.length - 1 ? sectionGap : 0), 0
+  const colorsWidth = (palettes.github.length - 1) * (legendCellSize + legendGap) - legendGap;
+  const totalWidth = sections.reduce((sum, section, i) => 
+    sum + section.labelWidth + 4 + colorsWidth + (i < sections.length - 1 ? sectionGap : 0), 0
   );
 
   // Position legend at bottom right
@@ -186,7 +282,7 @@ function renderDefaultThemeLegend(
     cells.push(
       `    <text x="${currentX}" y="${y + legendCellSize / 2 + 3}" font-size="${config.fontSize}" font-family="${config.fontFamily}" fill="${config.labelColor}">${section.label}</text>`
     );
-    currentX += labelWidths[sectionIndex] + 4;
+    currentX += section.labelWidth + 4;
 
     // Color cells
     section.colors.forEach((color) => {
@@ -2,16 +2,22 @@
 
 import type { ContributionDay } from "../../domain/contributions";
 import { getContributionColor, getThemeColorStops, getDefaultThemeColor } from "../shared/colorScale";
+import { getWarningBadgeWidth, renderWarningBadge, type UnavailableSource } from "../shared/warningBadge";
 import type { HeatmapConfig, HeatmapOptions } from "./heatmapConfig";
 import { createHeatmapConfig } from "./heatmapConfig";
 import { groupByWeek, calculateDimensions, createTooltipText } from "./heatmapUtils";
-import { renderMonthLabels, renderDayLabels, renderLegend } from "./heatmapLabels";
+import { renderMonthLabels, renderDayLabels, renderLegend, getLegendMinWidth } from "./heatmapLabels";
 
 export type HeatmapInput = {
   days: ContributionDay[];
   options?: HeatmapOptions;
+  /** Accounts that failed; a warning badge names their sources */
+  unavailable?: UnavailableSource[];
 };
 
+// Space between the warning badge and the legend
+const BADGE_LEGEND_GAP = 16;
+
 /**
  * Gets the fill color for a contribution cell based on theme.
  */
@@ -57,7 +63,12 @@ function renderCell(
 export function renderHeatmapSvg(input: HeatmapInput): string {
   const config: HeatmapConfig = createHeatmapConfig(input.options);
   const weeks = groupByWeek(input.days);
-  const dimensions = calculateDimensions(weeks, config);
+  const unavailable = input.unavailable ?? [];
+
+  // The badge sits left of the legend, so narrow ranges are widened to fit both
+  const badgeWidth = getWarningBadgeWidth(unavailable, config);
+  const badgeMinWidth = badgeWidth > 0 ? config.margin.left + badgeWidth + BADGE_LEGEND_GAP : 0;
+  const dimensions = calculateDimensions(weeks, config, getLegendMinWidth(config, input.days) + badgeMinWidth);
 
   const cells: string[] = [];
 
@@ -77,7 +88,13 @@ export function renderHeatmapSvg(input: HeatmapInput): string {
 
   const monthLabels = renderMonthLabels(weeks, config);
   const dayLabels = renderDayLabels(config);
-  const legend = renderLegend(dimensions, config);
+  const legend = renderLegend(dimensions, config, input.days);
+  const warningBadge = renderWarningBadge(
+    unavailable,
+    config.margin.left,
+    dimensions.height - config.margin.bottom + 12 + config.cellSize / 2,
+    config
+  );
 
   return `<svg 
   xmlns="http://www.w3.org/2000/svg" 
@@ -92,5 +109,6 @@ ${dayLabels}
 ${cells.join("\n")}
   </g>
 ${legend}
+${warningBadge}
 </svg>`;
 }
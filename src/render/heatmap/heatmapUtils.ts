@@ -1,13 +1,15 @@
 // Utility functions for heatmap data processing.
 
-import type { ContributionDay } from "../../domain/contributions";
+import type { ContributionDay, ContributionType } from "../../domain/contributions";
 import type { Dimensions } from "../shared/svgTypes";
+import { escapeXml } from "../shared/svgText";
 import type { HeatmapConfig } from "./heatmapConfig";
 
 /**
  * Groups contribution days by week for grid layout.
  * Weeks start on Sunday (GitHub convention).
- * Returns weeks with proper alignment - partial first/last weeks are filled to Sunday-Saturday.
+ * Returns one entry per week between the first and last day, so weeks without
+ * data keep their column (as an empty array) for ranges of any length.
  */
 export function groupByWeek(days: ContributionDay[]): ContributionDay[][] {
   if (days.length === 0) return [];
@@ -35,29 +37,38 @@ export function groupByWeek(days: ContributionDay[]): ContributionDay[][] {
     weekMap.get(sundayKey)!.push(day);
   }
 
-  // Convert map to sorted array of weeks
-  const weeks = Array.from(weekMap.entries())
-    .sort((a, b) => a[0].localeCompare(b[0]))
-    .map(([_, week]) => week);
+  // Walk every Sunday from the first to the last week, so gaps keep their column
+  const sundayKeys = Array.from(weekMap.keys()).sort();
+  const current = new Date(`${sundayKeys[0]}T00:00:00Z`);
+  const last = new Date(`${sundayKeys[sundayKeys.length - 1]}T00:00:00Z`);
+  const weeks: ContributionDay[][] = [];
+
+  while (current <= last) {
+    weeks.push(weekMap.get(current.toISOString().split('T')[0]) ?? []);
+    current.setUTCDate(current.getUTCDate() + 7);
+  }
 
   return weeks;
 }
 
 /**
  * Calculates SVG dimensions based on data and config.
+ * Short ranges are widened to minWidth so the legend still fits.
  */
 export function calculateDimensions(
   weeks: ContributionDay[][],
-  config: HeatmapConfig
+  config: HeatmapConfig,
+  minWidth = 0
 ): Dimensions {
   const numWeeks = weeks.length;
   const numDays = 7; // Always 7 rows for days of week
 
-  const width =
+  const gridWidth =
     config.margin.left +
     numWeeks * (config.cellSize + config.cellGap) -
     config.cellGap +
     config.margin.right;
+  const width = Math.max(gridWidth, minWidth);
 
   const height =
     config.margin.top +
@@ -82,11 +93,47 @@ export function formatDateForTooltip(dateIso: string): string {
   });
 }
 
+// Tooltip labels for contribution types
+const CONTRIBUTION_TYPE_LABELS: Record<ContributionType, string> = {
+  commits: "commits",
+  pullRequests: "pull requests",
+  reviews: "reviews",
+  issues: "issues",
+  other: "other",
+};
+
+/**
+ * Formats the per-type breakdown, e.g. "commits: 3, reviews: 1".
+ * Returns undefined when the day has no classified contributions.
+ */
+function formatTypeBreakdown(day: ContributionDay): string | undefined {
+  const entries = (Object.entries(day.typeCounts ?? {}) as [ContributionType, number][])
+    .filter(([, count]) => count > 0);
+
+  if (!entries.some(([type]) => type !== "other")) return undefined;
+
+  return entries.map(([type, count]) => `${CONTRIBUTION_TYPE_LABELS[type]}: ${count}`).join(", ");
+}
+
 /**
  * Creates tooltip text for a contribution cell.
+ * Appends the per-type breakdown when known, and a per-account breakdown
+ * (non-zero only) when several accounts were aggregated.
  */
 export function createTooltipText(day: ContributionDay): string {
   const dateStr = formatDateForTooltip(day.dateIso);
   const countText = day.count === 1 ? "1 contribution" : `${day.count} contributions`;
-  return `${countText} on ${dateStr}`;
+  const typeBreakdown = formatTypeBreakdown(day);
+  const text = typeBreakdown
+    ? `${countText} on ${dateStr}\n${typeBreakdown}`
+    : `${countText} on ${dateStr}`;
+
+  const accounts = Object.entries(day.accountCounts ?? {});
+  if (accounts.length < 2) return text;
+
+  const breakdown = accounts
+    .filter(([, count]) => count > 0)
+    .map(([account, count]) => `${escapeXml(account)}: ${count}`);
+
+  return breakdown.length > 0 ? `${text}\n${breakdown.join("\n")}` : text;
 }
@@ -8,6 +8,9 @@ export { type HeatmapConfig, type HeatmapOptions, createHeatmapConfig } from "./
 export { renderLineChartSvg, type LineChartInput } from "./linechart";
 export { type LineChartConfig, defaultLineChartConfig } from "./linechart";
 
+// Error card
+export { renderErrorCardSvg, type ErrorCardInput } from "./errorcard";
+
 // Art
 export {
   type PixelArtPattern,
@@ -28,6 +31,7 @@ export {
   isValidTheme,
   VALID_THEMES,
   type HeatmapTheme,
+  type UnavailableSource,
 } from "./shared";
 export {
   type Dimensions,
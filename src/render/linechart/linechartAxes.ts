@@ -4,8 +4,6 @@ import type { ContributionHistoryPoint } from "../../domain/contributions";
 import type { LineChartConfig } from "./linechartConfig";
 import { getDrawableArea, getMaxCount, generateYTicks, generateXTicks } from "./linechartUtils";
 
-const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
-
 /**
  * Renders horizontal grid lines.
  */
@@ -70,7 +68,7 @@ export function renderAxes(
       );
     }
 
-    // X-axis tick marks (at month boundaries)
+    // X-axis tick marks (days, weeks, months or years depending on the range)
     const xTicks = generateXTicks(data, config);
     for (const tick of xTicks) {
       elements.push(
@@ -106,14 +104,13 @@ export function renderAxisLabels(
     );
   }
 
-  // X-axis labels (month names)
+  // X-axis labels (dates, month names or years)
   const xTicks = generateXTicks(data, config);
   const bottom = config.margin.top + drawable.height;
 
   for (const tick of xTicks) {
-    const monthLabel = MONTH_LABELS[tick.date.getUTCMonth()];
     labels.push(
-      `    <text x="${tick.x.toFixed(2)}" y="${bottom + 16}" font-size="${config.fontSize}" font-family="${config.fontFamily}" fill="${config.labelColor}" text-anchor="middle">${monthLabel}</text>`
+      `    <text x="${tick.x.toFixed(2)}" y="${bottom + 16}" font-size="${config.fontSize}" font-family="${config.fontFamily}" fill="${config.labelColor}" text-anchor="middle">${tick.label}</text>`
     );
   }
 
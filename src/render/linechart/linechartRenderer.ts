@@ -5,10 +5,13 @@ import type { LineChartConfig } from "./linechartConfig";
 import { defaultLineChartConfig } from "./linechartConfig";
 import { mapToSvgPoints, createLinePath, createFillPath } from "./linechartUtils";
 import { renderGridLines, renderAxes, renderAxisLabels } from "./linechartAxes";
+import { renderWarningBadge, type UnavailableSource } from "../shared/warningBadge";
 
 export type LineChartInput = {
   points: ContributionHistoryPoint[];
   config?: Partial<LineChartConfig>;
+  /** Accounts that failed; a warning badge names their sources */
+  unavailable?: UnavailableSource[];
 };
 
 /**
@@ -24,6 +27,14 @@ export function renderLineChartSvg(input: LineChartInput): string {
   const gridLines = renderGridLines(input.points, config);
   const axes = renderAxes(input.points, config);
   const axisLabels = renderAxisLabels(input.points, config);
+  // Top right, above the plot area
+  const warningBadge = renderWarningBadge(
+    input.unavailable ?? [],
+    config.width - config.margin.right,
+    config.margin.top / 2,
+    config,
+    "end"
+  );
 
   // Use viewBox for responsive scaling
   const viewBox = `0 0 ${config.width} ${config.height}`;
@@ -55,5 +66,6 @@ ${axisLabels}
       stroke-linecap="round" 
       stroke-linejoin="round" />
   </g>
+${warningBadge}
 </svg>`;
 }
@@ -112,13 +112,84 @@ export function generateYTicks(maxValue: number, tickCount: number): number[] {
   return ticks;
 }
 
+const MONTH_LABELS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Minimum horizontal space per X-axis label, in pixels
+const MIN_X_TICK_SPACING = 48;
+
+/**
+ * Candidate X-axis tick intervals, finest first.
+ * Days step from the range start (7 = Sundays); months step from January.
+ */
+const X_TICK_INTERVALS: { unit: "day" | "month"; step: number }[] = [
+  { unit: "day", step: 1 },
+  { unit: "day", step: 7 },
+  { unit: "month", step: 1 },
+  { unit: "month", step: 3 },
+  { unit: "month", step: 6 },
+  { unit: "month", step: 12 },
+  { unit: "month", step: 24 },
+  { unit: "month", step: 60 },
+];
+
+/**
+ * Lists tick dates of an interval within [startDate, endDate].
+ */
+function listTickDates(
+  interval: { unit: "day" | "month"; step: number },
+  startDate: Date,
+  endDate: Date
+): Date[] {
+  const dates: Date[] = [];
+
+  if (interval.unit === "day") {
+    const current = new Date(startDate);
+    // Weekly ticks fall on Sundays, like the heatmap's week columns
+    if (interval.step === 7) {
+      current.setUTCDate(current.getUTCDate() + ((7 - current.getUTCDay()) % 7));
+    }
+    while (current <= endDate) {
+      dates.push(new Date(current));
+      current.setUTCDate(current.getUTCDate() + interval.step);
+    }
+    return dates;
+  }
+
+  // First day of the first month on the step grid (counted from January of year 0) at or after the start
+  const current = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth(), 1));
+  if (current < startDate) current.setUTCMonth(current.getUTCMonth() + 1);
+  while ((current.getUTCFullYear() * 12 + current.getUTCMonth()) % interval.step !== 0) {
+    current.setUTCMonth(current.getUTCMonth() + 1);
+  }
+
+  while (current <= endDate) {
+    dates.push(new Date(current));
+    current.setUTCMonth(current.getUTCMonth() + interval.step);
+  }
+  return dates;
+}
+
+/**
+ * Formats an X-axis label for a tick interval.
+ * Days: "Mar 5", months: "Mar", quarters/half-years: "Apr '24", years: "2024".
+ */
+function formatXTickLabel(date: Date, interval: { unit: "day" | "month"; step: number }): string {
+  const month = MONTH_LABELS[date.getUTCMonth()];
+  if (interval.unit === "day") return `${month} ${date.getUTCDate()}`;
+  if (interval.step === 1) return month;
+  if (interval.step < 12) return `${month} '${String(date.getUTCFullYear()).slice(2)}`;
+  return String(date.getUTCFullYear());
+}
+
 /**
  * Generates date ticks for the X axis.
+ * Picks the finest interval (days, weeks, months, quarters, years) whose labels
+ * fit the drawable width, so ranges from a week to several years stay readable.
  */
 export function generateXTicks(
   data: ContributionHistoryPoint[],
   config: LineChartConfig
-): { date: Date; x: number }[] {
+): { date: Date; x: number; label: string }[] {
   if (data.length === 0) return [];
 
   const sorted = [...data].sort(
@@ -130,20 +201,20 @@ export function generateXTicks(
   const maxTime = new Date(sorted[sorted.length - 1].dateIso).getTime();
   const timeRange = maxTime - minTime || 1;
 
-  // Find month boundaries within the data range
-  const ticks: { date: Date; x: number }[] = [];
   const startDate = new Date(sorted[0].dateIso);
   const endDate = new Date(sorted[sorted.length - 1].dateIso);
+  const maxTicks = Math.max(2, Math.floor(drawable.width / MIN_X_TICK_SPACING));
 
-  // Start from the first day of the month after start date
-  const current = new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() + 1, 1));
+  for (const interval of X_TICK_INTERVALS) {
+    const dates = listTickDates(interval, startDate, endDate);
+    if (dates.length > maxTicks) continue;
 
-  while (current <= endDate) {
-    const time = current.getTime();
-    const x = config.margin.left + ((time - minTime) / timeRange) * drawable.width;
-    ticks.push({ date: new Date(current), x });
-    current.setUTCMonth(current.getUTCMonth() + 1);
+    return dates.map((date) => ({
+      date,
+      x: config.margin.left + ((date.getTime() - minTime) / timeRange) * drawable.width,
+      label: formatXTickLabel(date, interval),
+    }));
   }
 
-  return ticks;
+  return [];
 }
@@ -2,6 +2,7 @@
 
 import type { ColorStop } from "./svgTypes";
 import type { ContributionDay } from "../../domain/contributions";
+import type { Provider } from "../../domain/provider";
 
 // Theme definitions
 export type HeatmapTheme = "default" | "github" | "gitlab" | "ice" | "fire" | "candy" | "rainbow" | "neon";
@@ -26,7 +27,39 @@ export const DEFAULT_THEME_PALETTES = {
     { threshold: 8, color: "#e57435" },
     { threshold: 12, color: "#C24E00" },
   ],
-  /** Mixed contributions (both platforms): pink shades */
+  /** Gitea/Forgejo-only contributions: teal shades */
+  gitea: [
+    { threshold: 0, color: "#ebedf0" },
+    { threshold: 1, color: "#b2dfdb" },
+    { threshold: 4, color: "#4db6ac" },
+    { threshold: 8, color: "#00897b" },
+    { threshold: 12, color: "#00695c" },
+  ],
+  /** Bitbucket-only contributions: blue shades */
+  bitbucket: [
+    { threshold: 0, color: "#ebedf0" },
+    { threshold: 1, color: "#b3d4ff" },
+    { threshold: 4, color: "#4c9aff" },
+    { threshold: 8, color: "#0065ff" },
+    { threshold: 12, color: "#0747a6" },
+  ],
+  /** Local git-only contributions: purple shades */
+  localgit: [
+    { threshold: 0, color: "#ebedf0" },
+    { threshold: 1, color: "#d1c4e9" },
+    { threshold: 4, color: "#9575cd" },
+    { threshold: 8, color: "#673ab7" },
+    { threshold: 12, color: "#4527a0" },
+  ],
+  /** Imported-only contributions: slate shades */
+  import: [
+    { threshold: 0, color: "#ebedf0" },
+    { threshold: 1, color: "#cfd8dc" },
+    { threshold: 4, color: "#90a4ae" },
+    { threshold: 8, color: "#607d8b" },
+    { threshold: 12, color: "#37474f" },
+  ],
+  /** Mixed contributions (multiple platforms): pink shades */
   mixed: [
     { threshold: 0, color: "#ebedf0" },
     { threshold: 1, color: "#f8bbd9" },
@@ -34,7 +67,7 @@ export const DEFAULT_THEME_PALETTES = {
     { threshold: 8, color: "#e91e8b" },
     { threshold: 12, color: "#ad1457" },
   ],
-} as const;
+} as const satisfies Record<Provider | "mixed", readonly ColorStop[]>;
 
 // Theme color palettes
 const themePalettes: Record<HeatmapTheme, ColorStop[]> = {
@@ -132,19 +165,20 @@ export function getContributionColor(count: number, stops: ColorStop[] = themePa
 
 /**
  * Determines the contribution source type for a day.
+ * Either a provider identifier (e.g. "github"), "mixed" or "none".
  */
-export type ContributionSource = "none" | "github" | "gitlab" | "mixed";
+export type DaySource = "none" | "mixed" | Provider;
 
 /**
  * Gets the contribution source based on platform-specific counts.
  */
-export function getContributionSource(day: ContributionDay): ContributionSource {
-  const hasGithub = (day.githubCount ?? 0) > 0;
-  const hasGitlab = (day.gitlabCount ?? 0) > 0;
+export function getContributionSource(day: ContributionDay): DaySource {
+  const activeProviders = (Object.entries(day.sourceCounts ?? {}) as [Provider, number | undefined][])
+    .filter(([, count]) => (count ?? 0) > 0)
+    .map(([provider]) => provider);
 
-  if (hasGithub && hasGitlab) return "mixed";
-  if (hasGithub) return "github";
-  if (hasGitlab) return "gitlab";
+  if (activeProviders.length > 1) return "mixed";
+  if (activeProviders.length === 1) return activeProviders[0];
   return "none";
 }
 
@@ -152,7 +186,11 @@ export function getContributionSource(day: ContributionDay): ContributionSource
  * Returns the color for the "default" theme based on contribution source.
  * - GitHub-only: green shades
  * - GitLab-only: orange shades
- * - Mixed (both platforms): pink shades
+ * - Gitea-only: teal shades
+ * - Bitbucket-only: blue shades
+ * - Local git-only: purple shades
+ * - Import-only: slate shades
+ * - Mixed (multiple platforms): pink shades
  */
 export function getDefaultThemeColor(day: ContributionDay): string {
   const source = getContributionSource(day);
@@ -161,11 +199,7 @@ export function getDefaultThemeColor(day: ContributionDay): string {
     return DEFAULT_THEME_PALETTES.github[0].color; // Empty day color
   }
 
-  const palette = source === "mixed" 
-    ? DEFAULT_THEME_PALETTES.mixed 
-    : DEFAULT_THEME_PALETTES[source];
-  
-  return getContributionColor(day.count, [...palette]);
+  return getContributionColor(day.count, [...DEFAULT_THEME_PALETTES[source]]);
 }
 
 /**
@@ -196,17 +230,25 @@ export function getColorPalette(theme: HeatmapTheme = "github"): string[] {
 }
 
 /**
- * Returns all three color palettes for the "default" theme legend.
- * Used to display a multi-row legend showing GitHub/GitLab/Mixed colors.
+ * Returns all color palettes for the "default" theme legend.
+ * Used to display a multi-row legend showing GitHub/GitLab/Gitea/Bitbucket/Local git/Import/Mixed colors.
  */
 export function getDefaultThemePalettes(): { 
   github: string[]; 
   gitlab: string[]; 
+  gitea: string[]; 
+  bitbucket: string[]; 
+  localgit: string[]; 
+  import: string[]; 
   mixed: string[]; 
 } {
   return {
     github: DEFAULT_THEME_PALETTES.github.map(stop => stop.color),
     gitlab: DEFAULT_THEME_PALETTES.gitlab.map(stop => stop.color),
+    gitea: DEFAULT_THEME_PALETTES.gitea.map(stop => stop.color),
+    bitbucket: DEFAULT_THEME_PALETTES.bitbucket.map(stop => stop.color),
+    localgit: DEFAULT_THEME_PALETTES.localgit.map(stop => stop.color),
+    import: DEFAULT_THEME_PALETTES.import.map(stop => stop.color),
     mixed: DEFAULT_THEME_PALETTES.mixed.map(stop => stop.color),
   };
 }
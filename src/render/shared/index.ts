@@ -19,5 +19,14 @@ export {
   VALID_THEMES,
   DEFAULT_THEME_PALETTES,
   type HeatmapTheme,
-  type ContributionSource,
+  type DaySource,
 } from "./colorScale";
+
+export {
+  getWarningBadgeWidth,
+  renderWarningBadge,
+  type UnavailableSource,
+  type WarningBadgeStyle,
+} from "./warningBadge";
+
+export { escapeXml } from "./svgText";
@@ -0,0 +1,13 @@
+// Text helpers shared by the SVG renderers.
+
+/**
+ * Escapes text for use inside SVG markup (account labels come from upstream APIs).
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
@@ -0,0 +1,68 @@
+// Warning badge for charts rendered without some sources' data.
+
+import { escapeXml } from "./svgText";
+
+/**
+ * A requested account whose data is missing from a chart.
+ */
+export type UnavailableSource = {
+  /** Display name of the source, e.g. "GitLab" */
+  source: string;
+  /** Label of the account, e.g. "gitlab:alice" */
+  account: string;
+};
+
+export type WarningBadgeStyle = {
+  fontSize: number;
+  fontFamily: string;
+};
+
+const WARNING_COLOR = "#9a6700";
+const ICON_SIZE = 12;
+const ICON_GAP = 4;
+
+// Average glyph width relative to the font size, to estimate the text width
+const CHAR_WIDTH_RATIO = 0.6;
+
+/**
+ * Returns the badge text, e.g. "GitLab data unavailable".
+ */
+function getWarningText(unavailable: UnavailableSource[]): string {
+  const sources = [...new Set(unavailable.map((entry) => entry.source))];
+  return sources.length <= 2
+    ? `${sources.join(" and ")} data unavailable`
+    : `${sources.length} sources unavailable`;
+}
+
+/**
+ * Estimates the width of the badge, to reserve room for it (0 when nothing is unavailable).
+ */
+export function getWarningBadgeWidth(unavailable: UnavailableSource[], style: WarningBadgeStyle): number {
+  if (unavailable.length === 0) return 0;
+  return ICON_SIZE + ICON_GAP + Math.ceil(getWarningText(unavailable).length * style.fontSize * CHAR_WIDTH_RATIO);
+}
+
+/**
+ * Renders a warning icon and text naming the unavailable sources; the tooltip lists the accounts.
+ * `x` is the left edge of the badge, or its right edge with `align: "end"`; `y` is its vertical center.
+ */
+export function renderWarningBadge(
+  unavailable: UnavailableSource[],
+  x: number,
+  y: number,
+  style: WarningBadgeStyle,
+  align: "start" | "end" = "start"
+): string {
+  if (unavailable.length === 0) return "";
+
+  const left = align === "end" ? x - getWarningBadgeWidth(unavailable, style) : x;
+  const top = y - ICON_SIZE / 2;
+  const accounts = unavailable.map((entry) => escapeXml(entry.account)).join("\n");
+
+  return `  <g class="warning-badge">
+    <title>Missing contributions, these accounts could not be fetched:\n${accounts}</title>
+    <path d="M${left + ICON_SIZE / 2} ${top} L${left + ICON_SIZE} ${top + ICON_SIZE} L${left} ${top + ICON_SIZE} Z" fill="${WARNING_COLOR}" />
+    <text x="${left + ICON_SIZE / 2}" y="${top + ICON_SIZE - 2}" font-size="8" font-weight="bold" font-family="${style.fontFamily}" fill="#ffffff" text-anchor="middle">!</text>
+    <text x="${left + ICON_SIZE + ICON_GAP}" y="${y + style.fontSize / 2 - 1}" font-size="${style.fontSize}" font-family="${style.fontFamily}" fill="${WARNING_COLOR}">${escapeXml(getWarningText(unavailable))}</text>
+  </g>`;
+}
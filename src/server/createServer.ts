@@ -1,9 +1,13 @@
 import express, { type Express, type Request } from "express";
 import { type Router } from "express";
 
-import { isAppError } from "../utils/appError";
+import { getCredentialParam, type ContributionSource } from "../sources/contributionSource";
+import { internalError, isAppError, rateLimited } from "../utils/appError";
+import type { CircuitBreakers } from "../utils/circuitBreaker";
+import { hashToken } from "../utils/crypto";
+import { sendErrorResponse } from "./errorResponse";
 
-import rateLimit from 'express-rate-limit';
+import rateLimit, { type AugmentedRequest } from 'express-rate-limit';
 
 /**
  * Generates a rate limit key based on token instead of IP.
@@ -11,41 +15,74 @@ import rateLimit from 'express-rate-limit';
  * This is critical because SVGs embedded in GitHub READMEs are fetched by GitHub's servers,
  * so all requests appear to come from the same IP (GitHub's CDN).
  * Instead, we rate limit by token to prevent individual users from abusing the service.
+ *
+ * @param credentialParams - Credential parameter of every registered source (see getCredentialParam)
  */
-function getRateLimitKey(req: Request): string {
-  const githubToken = (req.query.githubtoken as string) || '';
-  const gitlabToken = (req.query.gitlabtoken as string) || '';
+function getRateLimitKey(req: Request, credentialParams: string[]): string {
+  // The credential of any source (`githubtoken`, `localgitemail`, `importid`, ...) identifies the caller
+  const token = credentialParams
+    .map((name) => req.query[name])
+    // Repeated params (multiple accounts) arrive as arrays; the first one identifies the caller
+    .map((value) => (Array.isArray(value) ? value[0] : value))
+    .map((value) => (typeof value === 'string' ? value : ''))
+    .find((value) => value !== '');
+
+  // A profile slug identifies the caller like a token does
+  const profile = req.query.profile;
+  if (!token && typeof profile === 'string' && profile !== '') {
+    return `profile:${profile}`;
+  }
+
+  // Sealed blobs are long and differ per seal, so they are keyed by hash
+  const sealed = req.query.sealed;
+  if (!token && typeof sealed === 'string' && sealed !== '') {
+    return `sealed:${hashToken(sealed)}`;
+  }
 
   // If no token provided, fall back to IP (for health check, etc.)
-  if (!githubToken && !gitlabToken) {
+  if (!token) {
     return req.ip || 'unknown';
   }
 
   // Use hash of tokens as key (for privacy in logs)
   // Simple hash: first 8 chars of token (enough for rate limiting)
-  const key = githubToken ? githubToken.substring(0, 8) : gitlabToken.substring(0, 8);
+  const key = token.substring(0, 8);
   return `token:${key}`;
 }
 
-const limiter = rateLimit({
-  windowMs: 60 * 60 * 1000, // 1 hour
-  max: 50, // 50 requests per token per hour
-  standardHeaders: true,
-  legacyHeaders: false,
-  keyGenerator: getRateLimitKey,
-  skip: (req) => req.path === '/health',
-});
+function createLimiter(credentialParams: string[]) {
+  return rateLimit({
+    windowMs: 60 * 60 * 1000, // 1 hour
+    max: 50, // 50 requests per token per hour
+    standardHeaders: true,
+    legacyHeaders: false,
+    keyGenerator: (req) => getRateLimitKey(req, credentialParams),
+    skip: (req) => req.path === '/health',
+    // Answered by the error handler, so embedded images get an error card too
+    handler: (req, _res, next) => {
+      const resetTime = (req as AugmentedRequest).rateLimit?.resetTime;
+      const retryAfterSeconds = resetTime ? Math.max(0, Math.ceil((resetTime.getTime() - Date.now()) / 1000)) : undefined;
+      next(rateLimited('Too many requests (limit: 50 per hour per token).', retryAfterSeconds));
+    },
+  });
+}
 
 type CreateServerArgs = {
   router: Router;
+  /** Registered sources; their credential parameters identify callers for rate limiting */
+  sources: ContributionSource[];
+  /** Upstream circuit breakers whose state /health reports */
+  circuitBreakers?: CircuitBreakers;
+  /** Hosts /health reports circuits for (the configured upstreams) */
+  upstreamHosts?: string[];
 };
 
-export function createServer({ router }: CreateServerArgs): Express {
+export function createServer({ router, sources, circuitBreakers, upstreamHosts = [] }: CreateServerArgs): Express {
   const app = express();
 
   app.disable("x-powered-by");
 
-  app.use(limiter);
+  app.use(createLimiter(sources.map(getCredentialParam)));
 
   // Request/response with logging, no middleware yet.
   app.use((req, res, next) => {
@@ -62,22 +99,24 @@ export function createServer({ router }: CreateServerArgs): Express {
     next();
   });
 
+  // Open upstream circuits degrade single sources, not this server, so the status stays 200
   app.get("/health", (_req, res) => {
-    res.status(200).json({ ok: true });
+    res.status(200).json({ ok: true, upstreams: circuitBreakers?.getStates(upstreamHosts) ?? [] });
   });
 
   app.use(router);
 
   // Minimal error handler to keep controllers small.
+  // Answers with JSON, or with an SVG error card for image requests (see sendErrorResponse).
   app.use((err: unknown, req: express.Request, res: express.Response, _next: express.NextFunction) => {
     if (isAppError(err)) {
       console.error(`[error] ${req.method} ${req.url} → ${err.statusCode} ${err.code}: ${err.message}`);
-      res.status(err.statusCode).json({ error: err.code, message: err.message });
+      sendErrorResponse(req, res, err);
       return;
     }
 
     console.error(`[error] ${req.method} ${req.url} → 500 internalError:`, err);
-    res.status(500).json({ error: "internalError", message: "Unexpected error" });
+    sendErrorResponse(req, res, internalError("Unexpected error", err));
   });
 
   return app;
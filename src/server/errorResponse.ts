@@ -0,0 +1,77 @@
+// Error responses: JSON for API clients, SVG cards for images embedded in READMEs,
+// where a JSON body would only show up as a broken image.
+
+import type { Request, Response } from "express";
+
+import { renderErrorCardSvg } from "../render";
+import { isRateLimitedError, type AppError, type AppErrorCode } from "../utils/appError";
+
+// Endpoints that answer with images; their errors are images too unless the client asks for JSON
+const IMAGE_ENDPOINTS = new Set(["/heatmap", "/history", "/art"]);
+
+// Error cards are cached briefly, so a fixed token or a recovered upstream shows up soon
+const ERROR_CARD_MAX_AGE_SECONDS = 60;
+
+const ERROR_CARD_TITLES: Record<AppErrorCode, string> = {
+  badRequest: "Invalid request",
+  unauthorized: "Not authorized",
+  notFound: "Not found",
+  notImplemented: "Not available on this server",
+  rateLimited: "Rate limited",
+  upstreamError: "Source unavailable",
+  serviceUnavailable: "Temporarily unavailable",
+  internalError: "Something went wrong",
+};
+
+/**
+ * Formats a wait for humans, e.g. 45 → "45 s", 700 → "12 min", 7200 → "2 h".
+ */
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} s`;
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)} min`;
+  return `${Math.ceil(seconds / 3600)} h`;
+}
+
+/**
+ * Whether the error should be answered with an SVG card: for image endpoints unless
+ * the client prefers JSON, elsewhere only when the client prefers images.
+ */
+function wantsImage(req: Request): boolean {
+  const types = IMAGE_ENDPOINTS.has(req.path)
+    ? ["image/svg+xml", "application/json"]
+    : ["application/json", "image/svg+xml"];
+  return req.accepts(types) === "image/svg+xml";
+}
+
+/**
+ * Sends an error with its status code, as JSON or as an SVG card depending on the request.
+ */
+export function sendErrorResponse(req: Request, res: Response, err: AppError): void {
+  const retryAfterSeconds = isRateLimitedError(err) ? err.retryAfterSeconds : undefined;
+  if (retryAfterSeconds !== undefined) {
+    res.setHeader("Retry-After", String(retryAfterSeconds));
+  }
+
+  res.status(err.statusCode);
+  // The body format depends on the Accept header
+  res.setHeader("Vary", "Accept");
+
+  if (!wantsImage(req)) {
+    res.json({ error: err.code, message: err.message });
+    return;
+  }
+
+  const title = retryAfterSeconds !== undefined
+    ? `${ERROR_CARD_TITLES[err.code]}, retry in ${formatWait(retryAfterSeconds)}`
+    : ERROR_CARD_TITLES[err.code];
+  const maxAge = Math.min(ERROR_CARD_MAX_AGE_SECONDS, retryAfterSeconds ?? ERROR_CARD_MAX_AGE_SECONDS);
+
+  res.setHeader("Content-Type", "image/svg+xml");
+  res.setHeader("Cache-Control", `public, max-age=${maxAge}`);
+  res.setHeader("Referrer-Policy", "no-referrer");
+  res.send(renderErrorCardSvg({
+    title,
+    message: err.message,
+    code: `${err.code} · ${err.statusCode}`,
+  }));
+}
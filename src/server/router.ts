@@ -1,14 +1,27 @@
 import express, { type Router, type Request, type Response, type NextFunction } from "express";
 
+import type { AdminController } from "../api/adminController";
+import type { ProfileController } from "../api/profileController";
+
 export type RequestHandler = (req: Request, res: Response) => Promise<void>;
 
-// Router currently contains 3 controllers
+// Router currently contains 7 controllers
 type CreateRouterArgs = {
   heatmapController: RequestHandler;
   historyController: RequestHandler;
   artController: RequestHandler;
+  importController: RequestHandler;
+  profileController: ProfileController;
+  sealController: RequestHandler;
+  adminController: AdminController;
 };
 
+// Upload size limit for /import (a daily CSV for several decades is well below this)
+const IMPORT_BODY_LIMIT = "1mb";
+
+// Profile and seal bodies only carry a few tokens and options
+const CREDENTIALS_BODY_LIMIT = "16kb";
+
 function asyncHandler(
   fn: RequestHandler
 ): (req: Request, res: Response, next: NextFunction) => void {
@@ -17,12 +30,39 @@ function asyncHandler(
   };
 }
 
-export function createRouter({ heatmapController, historyController, artController }: CreateRouterArgs): Router {
+export function createRouter({
+  heatmapController,
+  historyController,
+  artController,
+  importController,
+  profileController,
+  sealController,
+  adminController,
+}: CreateRouterArgs): Router {
   const router = express.Router();
 
   router.get("/heatmap", asyncHandler(heatmapController));
   router.get("/history", asyncHandler(historyController));
   router.get("/art", asyncHandler(artController));
+  router.post(
+    "/import",
+    express.json({ limit: IMPORT_BODY_LIMIT }),
+    express.text({ type: ["text/csv", "text/plain"], limit: IMPORT_BODY_LIMIT }),
+    asyncHandler(importController)
+  );
+
+  const credentialsBody = express.json({ limit: CREDENTIALS_BODY_LIMIT });
+  router.post("/profiles", credentialsBody, asyncHandler(profileController.create));
+  router.get("/profiles/:slug", asyncHandler(profileController.get));
+  router.put("/profiles/:slug", credentialsBody, asyncHandler(profileController.update));
+  router.delete("/profiles/:slug", asyncHandler(profileController.remove));
+
+  router.post("/seal", credentialsBody, asyncHandler(sealController));
+
+  router.get("/admin/cache/stats", asyncHandler(adminController.getStats));
+  router.get("/admin/cache/entries", asyncHandler(adminController.listEntries));
+  router.delete("/admin/cache/entries", asyncHandler(adminController.deleteEntries));
+  router.delete("/admin/cache", asyncHandler(adminController.clear));
 
   return router;
 }
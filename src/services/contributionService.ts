@@ -1,22 +1,46 @@
 // Core contribution aggregation service.
-// Orchestrates GitHub and GitLab data sources into unified contribution data.
+// Orchestrates all registered contribution sources into unified contribution data.
 
-import type { GitHubService } from "../sources/github/githubService";
-import type { GitLabService } from "../sources/gitlab/gitlabService";
-import type { ContributionQuery, ContributionData } from "../domain/contributions";
+import type { Provider } from "../domain/provider";
+import type { ContributionQuery, ContributionData, ContributionDay, ContributionType } from "../domain/contributions";
+import type { ContributionSource, SourceCredentials, SourceRegistry } from "../sources/contributionSource";
 import type { Cache } from "../cache";
-import { buildSourceCacheKey } from "../cache/cacheKeys";
+import type { ProfileService } from "./profileService";
+import { buildMonthCacheKey } from "../cache/cacheKeys";
+import {
+  badRequest,
+  getErrorMessage,
+  isAppError,
+  isRateLimitedError,
+  notFound,
+  notImplemented,
+  unauthorized,
+  upstreamError,
+} from "../utils/appError";
 
 // Cache TTL: 24 hours (contributions only update once per day)
 const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
 
+// Months that ended more than this many days ago are treated as final
+const MUTABLE_DAYS = 7;
+
+// TTL for final months: past contributions practically never change
+const PAST_MONTH_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+
+// How long expired data is still served while it is refreshed in the background
+const DEFAULT_STALE_GRACE_MS = 7 * 24 * 60 * 60 * 1000;
+
 /**
  * Unified contribution entry combining all sources.
  */
 export type UnifiedContribution = {
   date: string; // YYYY-MM-DD
-  github: number;
-  gitlab: number;
+  /** Count per requested provider, summed over its accounts (0 when nothing that day) */
+  counts: Partial<Record<Provider, number>>;
+  /** Count per requested account, keyed by account label (see getAccountLabel) */
+  accounts: Record<string, number>;
+  /** Count per contribution type; unclassified contributions count as "other" */
+  types: Partial<Record<ContributionType, number>>;
   total: number;
 };
 
@@ -25,14 +49,16 @@ export type UnifiedContribution = {
  * Query parameters for fetching aggregated contributions.
  */
 export type AggregatedContributionQuery = {
-  githubUsername?: string;
-  gitlabUsername?: string;
-  githubToken?: string;
-  gitlabToken?: string;
-  /** Optional GitLab instance base URL (e.g. for self-hosted). Overrides server GITLAB_BASE_URL when set. */
-  gitlabBaseUrl?: string;
+  /** Credentials per provider, one entry per account; only providers listed here are fetched */
+  credentials: Partial<Record<Provider, SourceCredentials[]>>;
+  /** Profile slug whose stored credentials replace `credentials` */
+  profile?: string;
   fromDate: string; // YYYY-MM-DD
   toDate: string;   // YYYY-MM-DD
+  /** Only count these contribution types (all types when omitted) */
+  types?: ContributionType[];
+  /** IANA timezone every source buckets days by (UTC when omitted) */
+  timeZone?: string;
 };
 
 /**
@@ -41,55 +67,170 @@ export type AggregatedContributionQuery = {
 export type AggregatedContributionResult = {
   contributions: UnifiedContribution[];
   errors: SourceError[];
-  /** Number of sources that were requested (had token; username resolved from token) */
+  /** Number of source accounts that were requested (had token; username resolved from token) */
   sourcesRequested: number;
-  /** Number of sources that returned data successfully */
+  /** Number of source accounts that returned data successfully */
   sourcesSucceeded: number;
+  /** Latest upstream fetch time of the returned data (epoch ms); undefined when nothing succeeded */
+  lastModified?: number;
+  /** Whether the data can no longer change: the range ended long enough ago and no account failed */
+  isFinal: boolean;
 };
 
 /**
  * Error from a specific source.
  */
 export type SourceError = {
-  source: "github" | "gitlab";
+  source: Provider;
+  /** Label of the failing account, see getAccountLabel */
+  account: string;
   message: string;
+  /** Set when the upstream API refused the account's requests because of a rate limit */
+  rateLimited?: { retryAfterSeconds?: number };
+};
+
+/**
+ * Cache lookups of one provider's months since startup.
+ */
+export type ProviderCacheStats = {
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), 0-1 range */
+  hitRate: number;
 };
 
 export type ContributionService = {
   fetchAggregatedContributions(
     query: AggregatedContributionQuery
   ): Promise<AggregatedContributionResult>;
+  /** Cache hit rates per provider, for providers that were looked up at least once */
+  getProviderCacheStats(): Partial<Record<Provider, ProviderCacheStats>>;
+  /** Registered sources, used by controllers to read per-provider query parameters */
+  listSources(): ContributionSource[];
 };
 
 type ContributionServiceDependencies = {
-  githubService?: GitHubService;
-  gitlabService?: GitLabService;
+  registry: SourceRegistry;
   cache?: Cache;
+  /** Profile store; profiles are unavailable without it */
+  profiles?: ProfileService;
+  /** Grace window after a month's freshness in which stale data is served and refreshed in the background (0 disables) */
+  staleGraceMs?: number;
+};
+
+/**
+ * One calendar month of an account's data with the time it was fetched upstream.
+ */
+type FetchedMonth = {
+  days: ContributionDay[];
+  fetchedAt: number; // epoch ms
+  /** Set when the source reported the fetch that covered this month as incomplete */
+  incomplete?: string;
+};
+
+/**
+ * A month as stored in the cache.
+ * Requested ranges are assembled from months, so overlapping ranges share entries.
+ */
+type CachedMonth = FetchedMonth & {
+  /** Until when the month is served without a refresh (epoch ms); stale afterwards */
+  freshUntil: number; // epoch ms
+};
+
+/**
+ * One account of a source with credentials for the current request.
+ */
+type RequestedSource = {
+  source: ContributionSource;
+  credentials: SourceCredentials;
+  user: string;
+  /** Display label, unique per request (e.g. "github:octocat") */
+  account: string;
+};
+
+/**
+ * Data returned for one requested account.
+ */
+type AccountResult = {
+  requested: RequestedSource;
+  data: ContributionData;
+  /** Latest upstream fetch time of the data (epoch ms) */
+  fetchedAt: number;
+  /** Why some of the account's contributions may be missing, see ContributionData.incomplete */
+  incomplete?: string;
 };
 
 /**
- * Looks up cached contribution data for a specific source.
+ * Builds the label that attributes counts to an account in breakdowns and tooltips.
+ * Format: "{provider}:{user}", plus "@{host}" when a custom base URL is used.
+ */
+function getAccountLabel(source: ContributionSource, credentials: SourceCredentials, user: string): string {
+  if (!credentials.baseUrl) {
+    return `${source.provider}:${user}`;
+  }
+
+  try {
+    return `${source.provider}:${user}@${new URL(credentials.baseUrl).host}`;
+  } catch {
+    return `${source.provider}:${user}@${credentials.baseUrl}`;
+  }
+}
+
+/**
+ * Builds the cache key for one month of an account's data.
+ */
+function monthCacheKey(requested: RequestedSource, month: string, timeZone: string | undefined): string {
+  return buildMonthCacheKey({
+    sourceKey: requested.source.cacheKeyPrefix,
+    token: requested.credentials.token,
+    baseUrl: requested.credentials.baseUrl,
+    month,
+    options: requested.credentials.options,
+    timeZone,
+  });
+}
+
+/**
+ * Looks up one cached month of a specific source.
  * Returns null if cache is not available or if there's a cache miss.
  */
-function lookupSourceCache(
+function lookupMonthCache(
   cache: Cache | undefined,
-  provider: 'github' | 'gitlab',
-  token: string,
-  fromDate: string,
-  toDate: string
-): ContributionData | null {
-  if (!cache) return null;
-
-  const cacheKey = buildSourceCacheKey({ provider, token, fromDate, toDate });
-  const cached = cache.get<ContributionData>(cacheKey);
-
-  if (cached) {
-    console.log(`[service] Cache HIT for ${provider} (key="${cacheKey}")`);
-    return cached;
-  }
+  requested: RequestedSource,
+  month: string,
+  timeZone: string | undefined
+): CachedMonth | null {
+  if (!cache || requested.source.cacheable === false) return null;
+
+  const cached = cache.get<CachedMonth>(monthCacheKey(requested, month, timeZone));
+  return cached ?? null;
+}
 
-  console.log(`[service] Cache MISS for ${provider} (key="${cacheKey}")`);
-  return null;
+/**
+ * Resolves the user identifier for a source, from credentials or the token.
+ * A token that cannot be resolved fails the whole request: a rejected token with 401,
+ * an unreachable source with 502. Other AppErrors (e.g. an unknown import ID) keep their status code.
+ */
+async function resolveSourceUser(
+  source: ContributionSource,
+  credentials: SourceCredentials
+): Promise<string> {
+  if (credentials.user) return credentials.user;
+
+  try {
+    console.log(`[service] Resolving ${source.displayName} username from token`);
+    const user = await source.resolveUser(credentials);
+    console.log(`[service] Resolved ${source.displayName} username: ${user}`);
+    return user;
+  } catch (error) {
+    const message = getErrorMessage(error);
+    console.error(`[service] Failed to resolve ${source.displayName} username: ${message}`);
+    if (isAppError(error) && error.code === "unauthorized") {
+      throw unauthorized(`Invalid ${source.displayName} token: ${message}`, error);
+    }
+    if (isAppError(error)) throw error;
+    throw upstreamError(`Could not verify ${source.displayName} token: ${message}`, error);
+  }
 }
 
 /**
@@ -101,183 +242,268 @@ function lookupSourceCache(
 export function createContributionService(
   deps: ContributionServiceDependencies
 ): ContributionService {
-  const { githubService, gitlabService, cache } = deps;
+  const { registry, cache, profiles } = deps;
+  const staleGraceMs = Math.max(0, deps.staleGraceMs ?? DEFAULT_STALE_GRACE_MS);
+
+  // Month cache lookups per provider (stale months count as hits)
+  const cacheLookups = new Map<Provider, { hits: number; misses: number }>();
+
+  // Upstream fetches in progress per month cache key, so concurrent requests share one fetch
+  const inFlight = new Map<string, Promise<FetchedMonth>>();
+
+  /**
+   * Fetches months of an account's data from its source and caches each month.
+   * Adjacent months are fetched together in one upstream query; months already
+   * being fetched by another request are joined instead of fetched again.
+   *
+   * @returns Each requested month, by month (YYYY-MM)
+   */
+  function fetchMonths(
+    requested: RequestedSource,
+    months: string[],
+    timeZone: string | undefined
+  ): Map<string, Promise<FetchedMonth>> {
+    const { source, credentials, user } = requested;
+    const results = new Map<string, Promise<FetchedMonth>>();
+    const toFetch: string[] = [];
+
+    for (const month of months) {
+      const pending = inFlight.get(monthCacheKey(requested, month, timeZone));
+      if (pending) {
+        results.set(month, pending);
+      } else {
+        toFetch.push(month);
+      }
+    }
 
-  return {
-    async fetchAggregatedContributions(
-      query: AggregatedContributionQuery
-    ): Promise<AggregatedContributionResult> {
-      const { fromDate, toDate } = query;
+    if (results.size > 0) {
+      console.log(`[service] Joining in-flight ${source.displayName} fetch for ${results.size} months`);
+    }
 
-      // Resolve usernames from tokens if needed
-      let githubUsername = query.githubUsername;
-      let gitlabUsername = query.gitlabUsername;
+    for (const run of groupConsecutiveMonths(toFetch)) {
+      const contributionQuery: ContributionQuery = {
+        provider: source.provider,
+        user,
+        fromDate: getMonthStart(run[0]),
+        toDate: getMonthEnd(run[run.length - 1]),
+        timeZone,
+      };
 
-      // GitHub username resolution
-      if (query.githubToken && !githubUsername && githubService) {
-        try {
-          console.log(`[service] Resolving GitHub username from token`);
-          githubUsername = await githubService.fetchAuthenticatedUsername(query.githubToken);
-          console.log(`[service] Resolved GitHub username: ${githubUsername}`);
-        } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error(`[service] Failed to resolve GitHub username: ${message}`);
-          throw new Error(`Invalid GitHub token: ${message}`);
-        }
-      }
+      const runPromise = (async () => {
+        console.log(`[source] ${source.displayName}: fetching contributions for user "${user}" (${contributionQuery.fromDate} to ${contributionQuery.toDate})`);
+        const startTime = Date.now();
 
-      // GitLab username resolution
-      if (query.gitlabToken && !gitlabUsername && gitlabService) {
         try {
-          console.log(`[service] Resolving GitLab username from token`);
-          gitlabUsername = await gitlabService.fetchAuthenticatedUsername(
-            query.gitlabToken,
-            query.gitlabBaseUrl
-          );
-          console.log(`[service] Resolved GitLab username: ${gitlabUsername}`);
+          const data = await source.fetchContributionData(contributionQuery, credentials);
+          const duration = Date.now() - startTime;
+          console.log(`[source] ${source.displayName}: success - ${data.days.length} days fetched (${duration}ms)`);
+
+          const { incomplete } = data;
+          if (incomplete) {
+            console.warn(`[source] ${source.displayName}: incomplete - ${incomplete}`);
+          }
+
+          const fetchedAt = Date.now();
+          const daysByMonth = new Map<string, ContributionDay[]>(run.map((month) => [month, []]));
+          for (const day of data.days) {
+            daysByMonth.get(day.dateIso.slice(0, 7))?.push(day);
+          }
+
+          if (cache && source.cacheable !== false) {
+            for (const [month, days] of daysByMonth) {
+              // Kept past its freshness for the grace window, see CachedMonth
+              const freshForMs = isMonthFinal(month) ? PAST_MONTH_TTL_MS : CACHE_TTL_MS;
+              cache.set<CachedMonth>(
+                monthCacheKey(requested, month, timeZone),
+                { days, fetchedAt, incomplete, freshUntil: fetchedAt + freshForMs },
+                freshForMs + staleGraceMs
+              );
+            }
+            console.log(`[service] Cached ${run.length} months of ${source.displayName} data for user "${user}"`);
+          }
+
+          return { daysByMonth, fetchedAt, incomplete };
         } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          console.error(`[service] Failed to resolve GitLab username: ${message}`);
-          throw new Error(`Invalid GitLab token: ${message}`);
+          const duration = Date.now() - startTime;
+          console.error(`[source] ${source.displayName}: error - ${getErrorMessage(error)} (${duration}ms)`);
+          throw error;
+        } finally {
+          run.forEach((month) => inFlight.delete(monthCacheKey(requested, month, timeZone)));
         }
+      })();
+
+      for (const month of run) {
+        const monthPromise = runPromise.then(({ daysByMonth, fetchedAt, incomplete }) => ({
+          days: daysByMonth.get(month) ?? [],
+          fetchedAt,
+          incomplete,
+        }));
+        inFlight.set(monthCacheKey(requested, month, timeZone), monthPromise);
+        results.set(month, monthPromise);
       }
+    }
 
-      // Check cache for each source independently (token-based caching)
-      const cachedGitHub = query.githubToken && githubUsername
-        ? lookupSourceCache(cache, 'github', query.githubToken, fromDate, toDate)
-        : null;
+    return results;
+  }
 
-      const cachedGitLab = query.gitlabToken && gitlabUsername
-        ? lookupSourceCache(cache, 'gitlab', query.gitlabToken, fromDate, toDate)
-        : null;
+  /**
+   * Returns an account's data for a range, assembled from cached months where possible.
+   * Missing months are fetched; stale months are served as they are and refreshed in the background.
+   */
+  async function fetchAccountData(
+    requested: RequestedSource,
+    fromDate: string,
+    toDate: string,
+    timeZone: string | undefined
+  ): Promise<AccountResult> {
+    const { source, user } = requested;
+    const months = listMonths(fromDate, toDate);
+    const cachedMonths = new Map(months.map((month) => [month, lookupMonthCache(cache, requested, month, timeZone)]));
+
+    const now = Date.now();
+    const missing = months.filter((month) => !cachedMonths.get(month));
+    const stale = months.filter((month) => {
+      const cached = cachedMonths.get(month);
+      return cached && now >= cached.freshUntil;
+    });
 
-      const errors: SourceError[] = [];
-      const sourceResults: ContributionData[] = [];
-      let sourcesRequested = 0;
+    if (cache && source.cacheable !== false) {
+      const lookups = cacheLookups.get(source.provider) ?? { hits: 0, misses: 0 };
+      lookups.hits += months.length - missing.length;
+      lookups.misses += missing.length;
+      cacheLookups.set(source.provider, lookups);
+    }
 
-      // Add cached results to sourceResults
-      if (cachedGitHub) {
-        sourceResults.push(cachedGitHub);
-        console.log(`[service] Using cached GitHub data for user "${githubUsername}"`);
-      }
+    if (missing.length < months.length) {
+      console.log(`[service] Using ${months.length - missing.length}/${months.length} cached months of ${source.displayName} data for user "${user}"`);
+    }
 
-      if (cachedGitLab) {
-        sourceResults.push(cachedGitLab);
-        console.log(`[service] Using cached GitLab data for user "${gitlabUsername}"`);
-      }
+    if (stale.length > 0) {
+      // Stale: answer now, refresh for the next request
+      console.log(`[service] Refreshing ${stale.length} stale months of ${source.displayName} data in background`);
+      Promise.all(fetchMonths(requested, stale, timeZone).values()).catch((error) => {
+        console.warn(`[service] Background refresh of ${requested.account} failed: ${getErrorMessage(error)}`);
+      });
+    }
+
+    // Awaiting all months at once keeps every rejection handled when a fetch fails
+    const fetched = fetchMonths(requested, missing, timeZone);
+    const fetchedMonths = await Promise.all(missing.map((month) => fetched.get(month)!));
+    const fetchedByMonth = new Map(missing.map((month, index) => [month, fetchedMonths[index]]));
+
+    const parts = months.map((month) => cachedMonths.get(month) ?? fetchedByMonth.get(month)!);
+    const days = parts
+      .flatMap((part) => part.days)
+      .filter((day) => day.dateIso >= fromDate && day.dateIso <= toDate);
+
+    return {
+      requested,
+      data: { provider: source.provider, user, days },
+      fetchedAt: Math.max(...parts.map((part) => part.fetchedAt)),
+      incomplete: parts.find((part) => part.incomplete)?.incomplete,
+    };
+  }
 
-      // Fetch from available sources in parallel (only if not cached)
-      const fetchPromises: Promise<void>[] = [];
+  /**
+   * Returns the credentials stored in a profile.
+   */
+  function resolveProfileCredentials(slug: string): Partial<Record<Provider, SourceCredentials[]>> {
+    if (!profiles) {
+      throw notImplemented("Profiles are disabled on this server (PROFILE_ENCRYPTION_KEY not set)");
+    }
 
-      if (githubService && githubUsername && !cachedGitHub) {
-        sourcesRequested++;
-        console.log(`[source] GitHub: fetching contributions for user "${githubUsername}" (${fromDate} to ${toDate})`);
-        const startTime = Date.now();
-        fetchPromises.push(
-          fetchFromGitHub(
-            githubService,
-            githubUsername,
-            fromDate,
-            toDate,
-            query.githubToken
-          )
-            .then((data) => {
-              const duration = Date.now() - startTime;
-              console.log(`[source] GitHub: success - ${data.days.length} days fetched (${duration}ms)`);
-              sourceResults.push(data);
-            })
-            .catch((error) => {
-              const duration = Date.now() - startTime;
-              const message = error instanceof Error ? error.message : String(error);
-              console.error(`[source] GitHub: error - ${message} (${duration}ms)`);
-              errors.push({
-                source: "github",
-                message,
-              });
-            })
-        );
-      }
+    const credentials = profiles.resolveCredentials(slug);
+    if (!credentials) {
+      throw notFound(`Profile "${slug}" not found`);
+    }
+    return credentials;
+  }
 
-      if (gitlabService && gitlabUsername && !cachedGitLab) {
-        sourcesRequested++;
-        console.log(`[source] GitLab: fetching contributions for user "${gitlabUsername}" (${fromDate} to ${toDate})`);
-        const startTime = Date.now();
-        fetchPromises.push(
-          fetchFromGitLab(
-            gitlabService,
-            gitlabUsername,
-            fromDate,
-            toDate,
-            query.gitlabToken,
-            query.gitlabBaseUrl
-          )
-            .then((data) => {
-              const duration = Date.now() - startTime;
-              console.log(`[source] GitLab: success - ${data.days.length} days fetched (${duration}ms)`);
-              sourceResults.push(data);
-            })
-            .catch((error) => {
-              const duration = Date.now() - startTime;
-              const message = error instanceof Error ? error.message : String(error);
-              console.error(`[source] GitLab: error - ${message} (${duration}ms)`);
-              errors.push({
-                source: "gitlab",
-                message,
-              });
-            })
-        );
+  return {
+    async fetchAggregatedContributions(
+      query: AggregatedContributionQuery
+    ): Promise<AggregatedContributionResult> {
+      const { fromDate, toDate, timeZone } = query;
+      if (fromDate > toDate) {
+        throw badRequest(`Invalid range: from (${fromDate}) is after to (${toDate}).`);
       }
 
-      await Promise.all(fetchPromises);
+      const credentialsByProvider = query.profile
+        ? resolveProfileCredentials(query.profile)
+        : query.credentials;
+
+      // Only sources that received credentials take part in this request, once per account
+      const accounts = registry.list().flatMap((source) =>
+        (credentialsByProvider[source.provider] ?? []).map((credentials) => ({ source, credentials }))
+      );
+
+      const resolved: RequestedSource[] = await Promise.all(
+        accounts.map(async ({ source, credentials }) => {
+          const user = await resolveSourceUser(source, credentials);
+          return { source, credentials, user, account: getAccountLabel(source, credentials, user) };
+        })
+      );
+
+      // The same account passed twice is only fetched and counted once
+      const requestedSources = resolved.filter(
+        (requested, index) => resolved.findIndex((other) => other.account === requested.account) === index
+      );
+
+      const errors: SourceError[] = [];
+      const sourceResults: AccountResult[] = [];
+
+      // Fetch all requested accounts in parallel, checking each account's cache first
+      await Promise.all(
+        requestedSources.map(async (requested) => {
+          try {
+            const result = await fetchAccountData(requested, fromDate, toDate, timeZone);
+            sourceResults.push(result);
+            // Incomplete data is shown, but flagged like a failed account
+            if (result.incomplete) {
+              errors.push({ source: requested.source.provider, account: requested.account, message: result.incomplete });
+            }
+          } catch (error) {
+            errors.push({
+              source: requested.source.provider,
+              account: requested.account,
+              message: getErrorMessage(error),
+              rateLimited: isRateLimitedError(error) ? { retryAfterSeconds: error.retryAfterSeconds } : undefined,
+            });
+          }
+        })
+      );
 
       // Merge and normalize results
       const contributions = mergeContributions(
         sourceResults,
+        requestedSources,
         fromDate,
-        toDate
+        toDate,
+        query.types
       );
 
-      const result: AggregatedContributionResult = {
+      return {
         contributions,
         errors,
-        sourcesRequested,
+        sourcesRequested: requestedSources.length,
         sourcesSucceeded: sourceResults.length,
+        lastModified: sourceResults.length > 0
+          ? Math.max(...sourceResults.map((result) => result.fetchedAt))
+          : undefined,
+        isFinal: errors.length === 0 && isDateFinal(toDate),
       };
+    },
 
-      // Cache each source separately (only newly fetched data)
-      if (cache) {
-        for (const source of sourceResults) {
-          const wasCached =
-            (source.provider === 'github' && cachedGitHub) ||
-            (source.provider === 'gitlab' && cachedGitLab);
-
-          if (!wasCached) {
-            if (source.provider === 'github' && query.githubToken) {
-              const key = buildSourceCacheKey({
-                provider: 'github',
-                token: query.githubToken,
-                fromDate,
-                toDate
-              });
-              cache.set(key, source, CACHE_TTL_MS);
-              console.log(`[service] Cached GitHub data (key="${key}", ttl=${CACHE_TTL_MS}ms)`);
-            }
-
-            if (source.provider === 'gitlab' && query.gitlabToken) {
-              const key = buildSourceCacheKey({
-                provider: 'gitlab',
-                token: query.gitlabToken,
-                fromDate,
-                toDate
-              });
-              cache.set(key, source, CACHE_TTL_MS);
-              console.log(`[service] Cached GitLab data (key="${key}", ttl=${CACHE_TTL_MS}ms)`);
-            }
-          }
-        }
+    getProviderCacheStats(): Partial<Record<Provider, ProviderCacheStats>> {
+      const stats: Partial<Record<Provider, ProviderCacheStats>> = {};
+      for (const [provider, { hits, misses }] of cacheLookups) {
+        stats[provider] = { hits, misses, hitRate: hits + misses > 0 ? hits / (hits + misses) : 0 };
       }
+      return stats;
+    },
 
-      return result;
+    listSources(): ContributionSource[] {
+      return registry.list();
     },
   };
 }
@@ -290,79 +516,59 @@ function formatDateIso(date: Date): string {
 }
 
 /**
- * Fetches contribution data from GitHub.
- *
- * TODO: Add retry logic for transient failures
+ * Returns a day's per-type counts, counting whatever the source did not classify as "other".
  */
-async function fetchFromGitHub(
-  service: GitHubService,
-  username: string,
-  fromDate: string,
-  toDate: string,
-  token?: string
-): Promise<ContributionData> {
-  const query: ContributionQuery = {
-    provider: "github",
-    user: username,
-    fromDate,
-    toDate,
-  };
-
-  return service.fetchContributionData(query, token);
-}
-
-/**
- * Fetches contribution data from GitLab.
- *
- * TODO: Add retry logic for transient failures
- * TODO: GitLab Events API only returns 90 days - consider workarounds
- */
-async function fetchFromGitLab(
-  service: GitLabService,
-  username: string,
-  fromDate: string,
-  toDate: string,
-  token?: string,
-  baseUrl?: string
-): Promise<ContributionData> {
-  const query: ContributionQuery = {
-    provider: "gitlab",
-    user: username,
-    fromDate,
-    toDate,
-  };
-
-  return service.fetchContributionData(query, token, baseUrl);
+function getDayTypeCounts(day: ContributionDay): Partial<Record<ContributionType, number>> {
+  const typeCounts = { ...day.typeCounts };
+  const typed = Object.values(typeCounts).reduce((sum, count) => sum + count, 0);
+  if (day.count > typed) {
+    typeCounts.other = (typeCounts.other ?? 0) + day.count - typed;
+  }
+  return typeCounts;
 }
 
 /**
- * Merges contribution data from multiple sources into unified array.
- * Fills missing days with 0 contributions.
+ * Merges contribution data from multiple accounts into unified array.
+ * Accounts of the same provider are summed; per-account counts are kept for attribution.
+ * With a type filter, each day only counts the selected types.
+ * Fills missing days with 0 contributions for every requested provider and account.
  */
 function mergeContributions(
-  sourceResults: ContributionData[],
+  sourceResults: AccountResult[],
+  requestedSources: RequestedSource[],
   fromDateIso: string,
-  toDateIso: string
+  toDateIso: string,
+  types?: ContributionType[]
 ): UnifiedContribution[] {
-  // Build a map of date -> { github, gitlab }
-  const contributionMap = new Map<string, { github: number; gitlab: number }>();
+  // Build a map of date -> provider/account/type -> count
+  const contributionMap = new Map<string, Omit<UnifiedContribution, "date" | "total">>();
 
   // Initialize map with all days in range
   const allDates = generateDateRange(fromDateIso, toDateIso);
   for (const date of allDates) {
-    contributionMap.set(date, { github: 0, gitlab: 0 });
+    const counts: Partial<Record<Provider, number>> = {};
+    const accounts: Record<string, number> = {};
+    for (const requested of requestedSources) {
+      counts[requested.source.provider] = 0;
+      accounts[requested.account] = 0;
+    }
+    contributionMap.set(date, { counts, accounts, types: {} });
   }
 
   // Populate from source results
-  for (const result of sourceResults) {
-    for (const day of result.days) {
+  for (const { requested, data } of sourceResults) {
+    for (const day of data.days) {
       const existing = contributionMap.get(day.dateIso);
       if (existing) {
-        if (result.provider === "github") {
-          existing.github = day.count;
-        } else if (result.provider === "gitlab") {
-          existing.gitlab = day.count;
+        // Unfiltered days keep the source's own total, even if its breakdown disagrees slightly
+        let count = types ? 0 : day.count;
+        for (const [type, typeCount] of Object.entries(getDayTypeCounts(day)) as [ContributionType, number][]) {
+          if (types && !types.includes(type)) continue;
+          existing.types[type] = (existing.types[type] ?? 0) + typeCount;
+          if (types) count += typeCount;
         }
+        existing.counts[data.provider] = (existing.counts[data.provider] ?? 0) + count;
+        existing.accounts[requested.account] += count;
       }
       // Days outside the requested range are ignored
     }
@@ -371,12 +577,13 @@ function mergeContributions(
   // Convert map to sorted array
   const contributions: UnifiedContribution[] = [];
   for (const date of allDates) {
-    const counts = contributionMap.get(date)!;
+    const { counts, accounts, types: typeCounts } = contributionMap.get(date)!;
     contributions.push({
       date,
-      github: counts.github,
-      gitlab: counts.gitlab,
-      total: counts.github + counts.gitlab,
+      counts,
+      accounts,
+      types: typeCounts,
+      total: Object.values(counts).reduce((sum, count) => sum + (count ?? 0), 0),
     });
   }
 
@@ -393,9 +600,77 @@ function generateDateRange(fromDateIso: string, toDateIso: string): string[] {
 
   while (current <= end) {
     dates.push(formatDateIso(current));
-    current.setDate(current.getDate() + 1);
+    current.setUTCDate(current.getUTCDate() + 1);
   }
 
   return dates;
 }
 
+/**
+ * Returns the month after a month (YYYY-MM).
+ */
+function getNextMonth(month: string): string {
+  const date = new Date(`${month}-01T00:00:00Z`);
+  date.setUTCMonth(date.getUTCMonth() + 1);
+  return formatDateIso(date).slice(0, 7);
+}
+
+/**
+ * Returns the first day (YYYY-MM-DD) of a month.
+ */
+function getMonthStart(month: string): string {
+  return `${month}-01`;
+}
+
+/**
+ * Returns the last day (YYYY-MM-DD) of a month.
+ */
+function getMonthEnd(month: string): string {
+  const date = new Date(`${getNextMonth(month)}-01T00:00:00Z`);
+  date.setUTCDate(0);
+  return formatDateIso(date);
+}
+
+/**
+ * Lists the months (YYYY-MM) a date range touches, in order.
+ */
+function listMonths(fromDateIso: string, toDateIso: string): string[] {
+  const months: string[] = [];
+  for (let month = fromDateIso.slice(0, 7); month <= toDateIso.slice(0, 7); month = getNextMonth(month)) {
+    months.push(month);
+  }
+  return months;
+}
+
+/**
+ * Splits ordered months into runs of consecutive months (each fetched in one query).
+ */
+function groupConsecutiveMonths(months: string[]): string[][] {
+  const runs: string[][] = [];
+  for (const month of months) {
+    const run = runs[runs.length - 1];
+    if (run && getNextMonth(run[run.length - 1]) === month) {
+      run.push(month);
+    } else {
+      runs.push([month]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Whether a day is long enough ago (MUTABLE_DAYS) that its data is final.
+ * Recent days can still change, e.g. when events show up late upstream.
+ */
+function isDateFinal(dateIso: string): boolean {
+  const cutoff = new Date();
+  cutoff.setUTCDate(cutoff.getUTCDate() - MUTABLE_DAYS);
+  return dateIso < formatDateIso(cutoff);
+}
+
+/**
+ * Whether a month's data is final, see isDateFinal.
+ */
+function isMonthFinal(month: string): boolean {
+  return isDateFinal(getMonthEnd(month));
+}
@@ -0,0 +1,100 @@
+// Parsing and validation of uploaded contribution data (JSON or CSV).
+
+import type { ContributionDay } from "../domain/contributions";
+import { badRequest } from "../utils/appError";
+
+// ~55 years of daily data
+const MAX_IMPORT_DAYS = 20000;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Checks that a string is a real calendar date in YYYY-MM-DD format.
+ */
+function isValidDateIso(value: string): boolean {
+  if (!DATE_PATTERN.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Validates one entry and returns it as a ContributionDay.
+ * @param where - Position of the entry, used in error messages (e.g. "line 3")
+ */
+function toContributionDay(dateIso: unknown, count: unknown, where: string): ContributionDay {
+  if (typeof dateIso !== "string" || !isValidDateIso(dateIso)) {
+    throw badRequest(`Invalid date at ${where}: expected YYYY-MM-DD, got ${JSON.stringify(dateIso)}`);
+  }
+  if (typeof count !== "number" || !Number.isInteger(count) || count < 0) {
+    throw badRequest(`Invalid count at ${where}: expected a non-negative integer, got ${JSON.stringify(count)}`);
+  }
+  return { dateIso, count };
+}
+
+/**
+ * Sums entries per date and sorts them ascending.
+ * Several rows for the same day (e.g. one per repository) are added up.
+ */
+function normalizeDays(days: ContributionDay[]): ContributionDay[] {
+  if (days.length === 0) {
+    throw badRequest("Import contains no contribution days");
+  }
+  if (days.length > MAX_IMPORT_DAYS) {
+    throw badRequest(`Import is too large: ${days.length} entries (max ${MAX_IMPORT_DAYS})`);
+  }
+
+  const dailyMap = new Map<string, number>();
+  for (const day of days) {
+    dailyMap.set(day.dateIso, (dailyMap.get(day.dateIso) ?? 0) + day.count);
+  }
+
+  return Array.from(dailyMap.entries())
+    .map(([dateIso, count]) => ({ dateIso, count }))
+    .sort((a, b) => a.dateIso.localeCompare(b.dateIso));
+}
+
+/**
+ * Parses a JSON array of ContributionDay objects ({ dateIso, count }).
+ */
+export function parseImportJson(body: unknown): ContributionDay[] {
+  if (!Array.isArray(body)) {
+    throw badRequest("JSON import must be an array of { dateIso, count } objects");
+  }
+
+  const days = body.map((entry, index) => {
+    if (!entry || typeof entry !== "object") {
+      throw badRequest(`Invalid entry at index ${index}: expected an object`);
+    }
+    const { dateIso, count } = entry as { dateIso?: unknown; count?: unknown };
+    return toContributionDay(dateIso, count, `index ${index}`);
+  });
+
+  return normalizeDays(days);
+}
+
+/**
+ * Parses `date,count` CSV. A header row and blank lines are allowed.
+ */
+export function parseImportCsv(text: string): ContributionDay[] {
+  const lines = text.split(/\r?\n/);
+  const days: ContributionDay[] = [];
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === "") return;
+
+    const [date, count, ...rest] = line.split(",").map((cell) => cell.trim());
+
+    // Optional header row
+    if (index === 0 && date.toLowerCase() === "date") return;
+
+    if (count === undefined || rest.length > 0) {
+      throw badRequest(`Invalid CSV at line ${index + 1}: expected "date,count"`);
+    }
+
+    const parsedCount = /^\d+$/.test(count) ? Number(count) : NaN;
+    days.push(toContributionDay(date, parsedCount, `line ${index + 1}`));
+  });
+
+  return normalizeDays(days);
+}
@@ -0,0 +1,74 @@
+// Storage for uploaded (offline) contribution data.
+// Imports are kept under opaque IDs and read back through the "import" contribution source.
+
+import { randomBytes } from "crypto";
+
+import type { ContributionDay } from "../domain/contributions";
+import type { Cache } from "../cache";
+import { serviceUnavailable } from "../utils/appError";
+
+// Imported data is kept for 30 days
+const IMPORT_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * A stored import.
+ */
+export type ContributionImport = {
+  id: string;
+  days: ContributionDay[];
+  createdAt: string; // ISO 8601 datetime
+};
+
+export type ImportService = {
+  saveImport(days: ContributionDay[]): ContributionImport;
+  getImport(id: string): ContributionImport | null;
+};
+
+type ImportServiceDependencies = {
+  /** Durable store without eviction; imports are user data, not cache entries */
+  store: Cache;
+  /** Imports kept at most; uploading more fails until some expire */
+  maxImports: number;
+};
+
+/**
+ * Builds the store key for an import.
+ */
+function buildImportKey(id: string): string {
+  return `import:${id}`;
+}
+
+/**
+ * Creates an import service backed by the given store.
+ */
+export function createImportService(deps: ImportServiceDependencies): ImportService {
+  const { store, maxImports } = deps;
+
+  return {
+    saveImport(days: ContributionDay[]): ContributionImport {
+      if (store.getStats().size >= maxImports) {
+        // Expired imports stay in the store until read; drop them before refusing
+        store.deleteExpired();
+      }
+      if (store.getStats().size >= maxImports) {
+        throw serviceUnavailable(`Import storage is full (${maxImports} imports). Try again later.`);
+      }
+
+      // 96 bits of randomness, URL-safe
+      const id = randomBytes(12).toString("base64url");
+      const contributionImport: ContributionImport = {
+        id,
+        days,
+        createdAt: new Date().toISOString(),
+      };
+
+      store.set(buildImportKey(id), contributionImport, IMPORT_TTL_MS);
+      console.log(`[import] Stored import "${id}" (${days.length} days)`);
+      return contributionImport;
+    },
+
+    getImport(id: string): ContributionImport | null {
+      return store.get<ContributionImport>(buildImportKey(id));
+    },
+  };
+}
@@ -0,0 +1,200 @@
+// Storage for server-side profiles.
+// A profile keeps encrypted source credentials under a short slug, so embed URLs
+// can use `?profile=<slug>` instead of carrying tokens.
+
+import { createHash, randomBytes } from "crypto";
+
+import type { Provider } from "../domain/provider";
+import type { SourceCredentials } from "../sources/contributionSource";
+import type { Cache } from "../cache";
+import { notFound, serviceUnavailable } from "../utils/appError";
+import { decrypt, encrypt, secretsEqual } from "../utils/crypto";
+
+// Profiles expire after a year without use; each use renews them (at most once a day)
+const PROFILE_TTL_MS = 365 * 24 * 60 * 60 * 1000;
+const PROFILE_RENEW_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+/** Credentials per provider, one entry per account (as parsed from the query) */
+export type ProfileCredentials = Partial<Record<Provider, SourceCredentials[]>>;
+
+/**
+ * A stored profile. Credentials are only kept encrypted.
+ */
+type StoredProfile = {
+  slug: string;
+  /** SHA-256 of the owner secret that authorizes rotation and revocation */
+  ownerSecretHash: string;
+  /** Encrypted JSON of ProfileCredentials */
+  credentials: string;
+  createdAt: string; // ISO 8601 datetime
+  updatedAt: string; // ISO 8601 datetime
+  renewedAt: number; // epoch ms of the last TTL renewal
+};
+
+/**
+ * Public description of a profile (never includes tokens).
+ */
+export type ProfileSummary = {
+  slug: string;
+  /** Number of accounts per provider */
+  accounts: Partial<Record<Provider, number>>;
+  createdAt: string; // ISO 8601 datetime
+  updatedAt: string; // ISO 8601 datetime
+};
+
+/**
+ * Result of creating a profile. The owner secret is only returned here.
+ */
+export type CreatedProfile = ProfileSummary & {
+  ownerSecret: string;
+};
+
+export type ProfileService = {
+  createProfile(credentials: ProfileCredentials): CreatedProfile;
+  /** Replaces the stored credentials (token rotation). Throws 404 unless the owner secret matches. */
+  updateProfile(slug: string, ownerSecret: string, credentials: ProfileCredentials): ProfileSummary;
+  /** Deletes the profile (revocation). Throws 404 unless the owner secret matches. */
+  deleteProfile(slug: string, ownerSecret: string): void;
+  /** Returns the profile summary. Throws 404 unless the owner secret matches. */
+  getProfile(slug: string, ownerSecret: string): ProfileSummary;
+  /** Decrypted credentials for a slug, or null when the profile does not exist */
+  resolveCredentials(slug: string): ProfileCredentials | null;
+};
+
+type ProfileServiceDependencies = {
+  /** Durable store without eviction; profiles are user data, not cache entries */
+  store: Cache;
+  /** Profiles kept at most; creating more fails until some expire or are deleted */
+  maxProfiles: number;
+  /** 32-byte key the credentials are encrypted with (see deriveKey) */
+  encryptionKey: Buffer;
+};
+
+/**
+ * Builds the store key for a profile.
+ */
+function buildProfileKey(slug: string): string {
+  return `profile:${slug}`;
+}
+
+function hashOwnerSecret(ownerSecret: string): string {
+  return createHash("sha256").update(ownerSecret).digest("hex");
+}
+
+function toSummary(profile: StoredProfile, credentials: ProfileCredentials): ProfileSummary {
+  const accounts: Partial<Record<Provider, number>> = {};
+  for (const [provider, entries] of Object.entries(credentials) as [Provider, SourceCredentials[]][]) {
+    accounts[provider] = entries.length;
+  }
+
+  return {
+    slug: profile.slug,
+    accounts,
+    createdAt: profile.createdAt,
+    updatedAt: profile.updatedAt,
+  };
+}
+
+/**
+ * Creates a profile service backed by the given store.
+ */
+export function createProfileService(deps: ProfileServiceDependencies): ProfileService {
+  const { store, maxProfiles, encryptionKey } = deps;
+
+  function save(profile: StoredProfile): void {
+    store.set(buildProfileKey(profile.slug), profile, PROFILE_TTL_MS);
+  }
+
+  function decryptCredentials(profile: StoredProfile): ProfileCredentials | null {
+    const json = decrypt(profile.credentials, encryptionKey);
+    if (json === null) {
+      // Happens when the server key changed since the profile was created
+      console.error(`[profile] Could not decrypt profile "${profile.slug}"`);
+      return null;
+    }
+    return JSON.parse(json) as ProfileCredentials;
+  }
+
+  /**
+   * Loads a profile for its owner. Unknown slugs and wrong secrets both give 404,
+   * so the response does not reveal which slugs exist.
+   */
+  function loadOwnedProfile(slug: string, ownerSecret: string): StoredProfile {
+    const profile = store.get<StoredProfile>(buildProfileKey(slug));
+    if (!profile || !secretsEqual(hashOwnerSecret(ownerSecret), profile.ownerSecretHash)) {
+      throw notFound(`Profile "${slug}" not found`);
+    }
+    return profile;
+  }
+
+  return {
+    createProfile(credentials: ProfileCredentials): CreatedProfile {
+      if (store.getStats().size >= maxProfiles) {
+        // Expired profiles stay in the store until read; drop them before refusing
+        store.deleteExpired();
+      }
+      if (store.getStats().size >= maxProfiles) {
+        throw serviceUnavailable(`Profile storage is full (${maxProfiles} profiles). Try again later.`);
+      }
+
+      // 48 bits for the public slug, 192 bits for the owner secret; both URL-safe
+      const slug = randomBytes(6).toString("base64url");
+      const ownerSecret = randomBytes(24).toString("base64url");
+      const now = new Date();
+
+      const profile: StoredProfile = {
+        slug,
+        ownerSecretHash: hashOwnerSecret(ownerSecret),
+        credentials: encrypt(JSON.stringify(credentials), encryptionKey),
+        createdAt: now.toISOString(),
+        updatedAt: now.toISOString(),
+        renewedAt: now.getTime(),
+      };
+
+      save(profile);
+      console.log(`[profile] Created profile "${slug}" (${Object.keys(credentials).join(", ")})`);
+      return { ...toSummary(profile, credentials), ownerSecret };
+    },
+
+    updateProfile(slug: string, ownerSecret: string, credentials: ProfileCredentials): ProfileSummary {
+      const profile = loadOwnedProfile(slug, ownerSecret);
+      const now = new Date();
+
+      const updated: StoredProfile = {
+        ...profile,
+        credentials: encrypt(JSON.stringify(credentials), encryptionKey),
+        updatedAt: now.toISOString(),
+        renewedAt: now.getTime(),
+      };
+
+      save(updated);
+      console.log(`[profile] Updated profile "${slug}" (${Object.keys(credentials).join(", ")})`);
+      return toSummary(updated, credentials);
+    },
+
+    deleteProfile(slug: string, ownerSecret: string): void {
+      loadOwnedProfile(slug, ownerSecret);
+      store.delete(buildProfileKey(slug));
+      console.log(`[profile] Deleted profile "${slug}"`);
+    },
+
+    getProfile(slug: string, ownerSecret: string): ProfileSummary {
+      const profile = loadOwnedProfile(slug, ownerSecret);
+      return toSummary(profile, decryptCredentials(profile) ?? {});
+    },
+
+    resolveCredentials(slug: string): ProfileCredentials | null {
+      const profile = store.get<StoredProfile>(buildProfileKey(slug));
+      if (!profile) return null;
+
+      const credentials = decryptCredentials(profile);
+      if (!credentials) return null;
+
+      if (Date.now() - profile.renewedAt >= PROFILE_RENEW_INTERVAL_MS) {
+        save({ ...profile, renewedAt: Date.now() });
+      }
+
+      return credentials;
+    },
+  };
+}
@@ -0,0 +1,91 @@
+// Sealed credentials: tokens and options encrypted into an opaque, self-contained blob.
+// A stateless alternative to profiles; `?sealed=<blob>` replaces the token parameters.
+
+import type { Provider } from "../domain/provider";
+import type { SourceCredentials } from "../sources/contributionSource";
+import { badRequest } from "../utils/appError";
+import { decrypt, encrypt } from "../utils/crypto";
+
+// Bump when the payload shape changes; older blobs are then rejected
+const SEALED_VERSION = 1;
+
+/**
+ * Data endpoints a sealed blob can be restricted to.
+ */
+export const SEALED_ENDPOINTS = ["heatmap", "history"] as const;
+
+export type SealedEndpoint = typeof SEALED_ENDPOINTS[number];
+
+/** Credentials per provider, one entry per account (as parsed from the query) */
+export type SealedCredentials = Partial<Record<Provider, SourceCredentials[]>>;
+
+/**
+ * Optional restrictions embedded in a sealed blob.
+ */
+export type SealClaims = {
+  /** ISO 8601 datetime after which the blob is rejected */
+  expiresAt?: string;
+  /** Endpoints that accept the blob (all data endpoints when omitted) */
+  endpoints?: SealedEndpoint[];
+};
+
+/**
+ * Encrypted payload of a sealed blob.
+ */
+type SealedPayload = {
+  v: number;
+  credentials: SealedCredentials;
+  /** Expiry as epoch ms */
+  exp?: number;
+  endpoints?: SealedEndpoint[];
+};
+
+export type SealService = {
+  seal(credentials: SealedCredentials, claims: SealClaims): string;
+  /** Returns the credentials of a blob. Throws a 400 when the blob is invalid, expired or not valid for the endpoint. */
+  unseal(sealed: string, endpoint: SealedEndpoint): SealedCredentials;
+};
+
+type SealServiceDependencies = {
+  /** 32-byte key blobs are encrypted with (see deriveKey) */
+  encryptionKey: Buffer;
+};
+
+/**
+ * Creates a service that seals and unseals credentials with the server key.
+ * Blobs are authenticated, so any modification makes them invalid.
+ */
+export function createSealService(deps: SealServiceDependencies): SealService {
+  const { encryptionKey } = deps;
+
+  return {
+    seal(credentials: SealedCredentials, claims: SealClaims): string {
+      const payload: SealedPayload = {
+        v: SEALED_VERSION,
+        credentials,
+        exp: claims.expiresAt ? new Date(claims.expiresAt).getTime() : undefined,
+        endpoints: claims.endpoints,
+      };
+
+      console.log(`[sealed] Sealed credentials (${Object.keys(credentials).join(", ")})`);
+      return encrypt(JSON.stringify(payload), encryptionKey);
+    },
+
+    unseal(sealed: string, endpoint: SealedEndpoint): SealedCredentials {
+      const json = decrypt(sealed, encryptionKey);
+      const payload = json === null ? null : (JSON.parse(json) as SealedPayload);
+
+      if (!payload || payload.v !== SEALED_VERSION) {
+        throw badRequest("Invalid sealed parameter. Create a new one with POST /seal.");
+      }
+      if (payload.exp !== undefined && Date.now() >= payload.exp) {
+        throw badRequest(`Sealed parameter expired at ${new Date(payload.exp).toISOString()}.`);
+      }
+      if (payload.endpoints && !payload.endpoints.includes(endpoint)) {
+        throw badRequest(`Sealed parameter is not valid for /${endpoint} (allowed: ${payload.endpoints.map((e) => `/${e}`).join(", ")}).`);
+      }
+
+      return payload.credentials;
+    },
+  };
+}
@@ -0,0 +1,132 @@
+// Low-level REST client for Bitbucket Cloud API.
+
+import { unauthorized } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { fetchWithRetry, isRejectedCredentials } from "../../utils/network";
+
+export const DEFAULT_BITBUCKET_BASE_URL = "https://api.bitbucket.org";
+
+export type BitbucketClientConfig = {
+  token?: string;
+  baseUrl?: string;
+  /** Checked before and updated after every request (see fetchWithRetry) */
+  circuitBreakers?: CircuitBreakers;
+};
+
+/**
+ * Bitbucket paginated response envelope.
+ * Pages link to each other via the absolute `next` URL.
+ */
+export type BitbucketPage<T> = {
+  values: T[];
+  pagelen: number;
+  page?: number;
+  size?: number;
+  next?: string;
+};
+
+export type BitbucketUser = {
+  uuid: string;
+  username?: string;
+  nickname?: string;
+  account_id?: string;
+};
+
+export type BitbucketClient = {
+  /** Fetches a page by API path (relative to /2.0) or by an absolute `next` URL. */
+  getPage<T>(pathOrUrl: string, params?: Record<string, string | number>): Promise<BitbucketPage<T>>;
+  getAuthenticatedUser(): Promise<BitbucketUser>;
+};
+
+/**
+ * Builds the Authorization header value.
+ * App passwords are given as "username:app_password" and use Basic auth,
+ * everything else (access tokens) is sent as a Bearer token.
+ * Bitbucket Server accepts the same two forms (password or HTTP access token).
+ */
+export function buildAuthorization(token: string): string {
+  if (token.includes(":")) {
+    return `Basic ${Buffer.from(token).toString("base64")}`;
+  }
+  return `Bearer ${token}`;
+}
+
+/**
+ * Creates a low-level Bitbucket Cloud REST client.
+ * Transient failures and short rate limits are retried (see fetchWithRetry).
+ */
+export function createBitbucketClient(config: BitbucketClientConfig = {}): BitbucketClient {
+  const { token, circuitBreakers, baseUrl = DEFAULT_BITBUCKET_BASE_URL } = config;
+
+  function buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      "User-Agent": "git-heatmaps",
+    };
+
+    if (token) {
+      headers["Authorization"] = buildAuthorization(token);
+    }
+
+    return headers;
+  }
+
+  return {
+    async getPage<T>(pathOrUrl: string, params?: Record<string, string | number>): Promise<BitbucketPage<T>> {
+      const url = pathOrUrl.startsWith("http")
+        ? new URL(pathOrUrl)
+        : new URL(`/2.0${pathOrUrl}`, baseUrl);
+
+      if (params) {
+        for (const [key, value] of Object.entries(params)) {
+          url.searchParams.set(key, String(value));
+        }
+      }
+
+      console.log(`[bitbucket-client] GET ${url.pathname}${url.search}`);
+
+      const response = await fetchWithRetry(url.toString(), {
+        method: "GET",
+        headers: buildHeaders(),
+      }, { circuitBreakers });
+
+      console.log(`[bitbucket-client] Response: ${response.status} ${response.statusText}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[bitbucket-client] Error response body: ${errorBody}`);
+        throw new Error(`Bitbucket API error: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json() as BitbucketPage<T>;
+    },
+
+    async getAuthenticatedUser(): Promise<BitbucketUser> {
+      console.log(`[bitbucket-client] Fetching authenticated user`);
+
+      const url = new URL(`/2.0/user`, baseUrl);
+
+      const response = await fetchWithRetry(url.toString(), {
+        method: "GET",
+        headers: buildHeaders(),
+      }, { circuitBreakers });
+
+      console.log(`[bitbucket-client] Response: ${response.status} ${response.statusText}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[bitbucket-client] Error response body: ${errorBody}`);
+        const message = `Bitbucket authentication failed: ${response.status} ${response.statusText}`;
+        throw isRejectedCredentials(response.status) ? unauthorized(message) : new Error(message);
+      }
+
+      const data = await response.json() as Partial<BitbucketUser>;
+
+      if (!data.uuid) {
+        throw new Error("Bitbucket API returned no user data");
+      }
+
+      return data as BitbucketUser;
+    },
+  };
+}
@@ -0,0 +1,128 @@
+// Maps Bitbucket API responses to domain models.
+
+import type { ContributionDay, ContributionData, ContributionType } from "../../domain/contributions";
+import { toLocalDateIso } from "../../utils/timezone";
+
+// Bitbucket API response types (only the fields we read)
+
+export type BitbucketRepository = {
+  full_name: string;
+  updated_on?: string;
+};
+
+export type BitbucketCommit = {
+  hash: string;
+  date: string; // ISO 8601 datetime
+  author?: {
+    raw?: string;
+    user?: { uuid?: string };
+  };
+};
+
+export type BitbucketPullRequest = {
+  id: number;
+  created_on: string; // ISO 8601 datetime
+  author?: { uuid?: string };
+};
+
+// Bitbucket Server / Data Center API response types (only the fields we read)
+
+export type BitbucketServerRepository = {
+  slug: string;
+  project: { key: string };
+};
+
+export type BitbucketServerCommit = {
+  id: string;
+  authorTimestamp: number; // Unix milliseconds
+  author?: {
+    name?: string;
+    emailAddress?: string;
+    slug?: string; // only set when the author email is linked to a user
+  };
+};
+
+export type BitbucketServerPullRequest = {
+  id: number;
+  createdDate: number; // Unix milliseconds
+};
+
+/**
+ * Checks whether a commit was authored by the given Bitbucket user.
+ * Commits whose author email is not linked to an account carry no user and are skipped.
+ */
+export function isCommitByUser(commit: BitbucketCommit, userUuid: string): boolean {
+  return commit.author?.user?.uuid === userUuid;
+}
+
+/**
+ * Checks whether a Bitbucket Server commit was authored by the given user,
+ * by linked user or, for unlinked authors, by email address.
+ */
+export function isServerCommitByUser(
+  commit: BitbucketServerCommit,
+  user: { slug: string; emailAddress?: string }
+): boolean {
+  const author = commit.author;
+  if (!author) return false;
+  if (author.slug) return author.slug === user.slug;
+  return user.emailAddress !== undefined
+    && author.emailAddress?.toLowerCase() === user.emailAddress.toLowerCase();
+}
+
+/**
+ * Converts a Bitbucket Server commit to the Cloud shape counted by mapContributionData.
+ */
+export function mapServerCommit(commit: BitbucketServerCommit): BitbucketCommit {
+  return { hash: commit.id, date: new Date(commit.authorTimestamp).toISOString() };
+}
+
+/**
+ * Converts a Bitbucket Server pull request to the Cloud shape counted by mapContributionData.
+ */
+export function mapServerPullRequest(pullRequest: BitbucketServerPullRequest): BitbucketPullRequest {
+  return { id: pullRequest.id, created_on: new Date(pullRequest.createdDate).toISOString() };
+}
+
+/**
+ * Maps authored commits and opened pull requests to domain ContributionData.
+ * Each commit and each pull request counts as one contribution on its day
+ * in the given timezone (UTC when omitted).
+ */
+export function mapContributionData(
+  commits: BitbucketCommit[],
+  pullRequests: BitbucketPullRequest[],
+  user: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string
+): ContributionData {
+  const dailyMap = new Map<string, Partial<Record<ContributionType, number>>>();
+
+  const timestamps: Array<[string, ContributionType]> = [
+    ...commits.map((c): [string, ContributionType] => [c.date, "commits"]),
+    ...pullRequests.map((pr): [string, ContributionType] => [pr.created_on, "pullRequests"]),
+  ];
+
+  for (const [timestamp, type] of timestamps) {
+    const date = toLocalDateIso(timestamp, timeZone);
+    if (date < fromDateIso || date > toDateIso) continue;
+    const typeCounts = dailyMap.get(date) ?? {};
+    typeCounts[type] = (typeCounts[type] ?? 0) + 1;
+    dailyMap.set(date, typeCounts);
+  }
+
+  const days: ContributionDay[] = Array.from(dailyMap.entries())
+    .map(([dateIso, typeCounts]) => ({
+      dateIso,
+      count: (typeCounts.commits ?? 0) + (typeCounts.pullRequests ?? 0),
+      typeCounts,
+    }))
+    .sort((a, b) => a.dateIso.localeCompare(b.dateIso));
+
+  return {
+    provider: "bitbucket",
+    user,
+    days,
+  };
+}
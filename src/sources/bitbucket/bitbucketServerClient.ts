@@ -0,0 +1,137 @@
+// Low-level REST client for Bitbucket Server / Data Center API.
+
+import { unauthorized } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { fetchWithRetry, isRejectedCredentials } from "../../utils/network";
+import { buildAuthorization } from "./bitbucketClient";
+
+export type BitbucketServerClientConfig = {
+  token?: string;
+  /** Instance base URL, including any path prefix */
+  baseUrl: string;
+  /** Checked before and updated after every request (see fetchWithRetry) */
+  circuitBreakers?: CircuitBreakers;
+};
+
+/**
+ * Bitbucket Server paginated response envelope.
+ * Pages are addressed by item offset: the next page starts at `nextPageStart`.
+ */
+export type BitbucketServerPage<T> = {
+  values: T[];
+  size: number;
+  limit: number;
+  start: number;
+  isLastPage: boolean;
+  nextPageStart?: number;
+};
+
+export type BitbucketServerUser = {
+  name: string;
+  slug: string;
+  emailAddress?: string;
+};
+
+export type BitbucketServerClient = {
+  /** Fetches an API path (relative to /rest/api/1.0). */
+  get<T>(path: string, params?: Record<string, string | number>): Promise<T>;
+  getAuthenticatedUser(): Promise<BitbucketServerUser>;
+};
+
+/**
+ * Creates a low-level Bitbucket Server / Data Center REST client.
+ * Transient failures and short rate limits are retried (see fetchWithRetry).
+ */
+export function createBitbucketServerClient(config: BitbucketServerClientConfig): BitbucketServerClient {
+  const { token, circuitBreakers, baseUrl } = config;
+
+  function buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      "User-Agent": "git-heatmaps",
+    };
+
+    if (token) {
+      headers["Authorization"] = buildAuthorization(token);
+    }
+
+    return headers;
+  }
+
+  /**
+   * Joins a path onto the base URL, keeping its path prefix
+   * (e.g. https://example.com/bitbucket + /rest/api/1.0/repos).
+   */
+  function buildUrl(path: string): URL {
+    return new URL(`${baseUrl.replace(/\/+$/, "")}${path}`);
+  }
+
+  async function request(url: URL): Promise<Response> {
+    console.log(`[bitbucket-server-client] GET ${url.pathname}${url.search}`);
+
+    const response = await fetchWithRetry(url.toString(), {
+      method: "GET",
+      headers: buildHeaders(),
+    }, { circuitBreakers });
+
+    console.log(`[bitbucket-server-client] Response: ${response.status} ${response.statusText}`);
+    return response;
+  }
+
+  async function get<T>(path: string, params?: Record<string, string | number>): Promise<T> {
+    const url = buildUrl(`/rest/api/1.0${path}`);
+
+    if (params) {
+      for (const [key, value] of Object.entries(params)) {
+        url.searchParams.set(key, String(value));
+      }
+    }
+
+    const response = await request(url);
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      console.error(`[bitbucket-server-client] Error response body: ${errorBody}`);
+      throw new Error(`Bitbucket Server API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+  }
+
+  return {
+    get,
+
+    async getAuthenticatedUser(): Promise<BitbucketServerUser> {
+      console.log(`[bitbucket-server-client] Fetching authenticated user`);
+
+      // The REST API has no "current user" resource; whoami returns the username as plain text
+      const response = await request(buildUrl("/plugins/servlet/applinks/whoami"));
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[bitbucket-server-client] Error response body: ${errorBody}`);
+        const message = `Bitbucket Server authentication failed: ${response.status} ${response.statusText}`;
+        throw isRejectedCredentials(response.status) ? unauthorized(message) : new Error(message);
+      }
+
+      // Anonymous requests get an empty body rather than an error
+      const username = (await response.text()).trim();
+
+      if (!username) {
+        throw unauthorized("Bitbucket Server authentication failed: token was not accepted");
+      }
+
+      // Slugs can differ from usernames, so look the user up by name
+      const users = await get<BitbucketServerPage<BitbucketServerUser>>("/users", { filter: username });
+      const user = Array.isArray(users.values)
+        ? users.values.find((candidate) => candidate.name === username)
+        : undefined;
+
+      if (!user?.slug) {
+        throw new Error("Bitbucket Server API returned no user data");
+      }
+
+      return user;
+    },
+  };
+}
@@ -0,0 +1,456 @@
+/**
+ * Bitbucket Service
+ *
+ * Counts the authenticated user's commits and pull requests per day
+ * using the Bitbucket Cloud REST API, or the Bitbucket Server / Data Center
+ * REST API (/rest/api/1.0) when the base URL points at a self-hosted instance.
+ *
+ * Key implementation details:
+ * - Bitbucket has no per-user activity feed, so commits are collected
+ *   from every repository the user is a member of
+ * - Only repositories updated inside the range are scanned
+ * - Commit pages are newest-first, so paging stops once a page is older than the range
+ * - Users are identified by account UUID (usernames are no longer exposed by the API)
+ * - Listings cut off by the safety limits mark the data as incomplete
+ *
+ * Bitbucket Server differences:
+ * - Users are identified by user slug; commits by unlinked authors are matched by email
+ * - Repositories the user can push to are scanned, since there is no "updated since" filter
+ * - Only commits reachable from each repository's default branch are listed
+ * - Pull requests come from the user's dashboard, newest first
+ */
+
+import type { ContributionQuery, ContributionData } from '../../domain/contributions';
+import { upstreamError } from '../../utils/appError';
+import type { CircuitBreakers } from '../../utils/circuitBreaker';
+import { createConcurrencyLimiter, type ConcurrencyLimiter } from '../../utils/concurrency';
+import { getDayEndIso, getDayStartIso, toLocalDateIso } from '../../utils/timezone';
+import { createBitbucketClient, type BitbucketClient } from './bitbucketClient';
+import {
+  isCommitByUser,
+  isServerCommitByUser,
+  mapContributionData,
+  mapServerCommit,
+  mapServerPullRequest,
+  type BitbucketCommit,
+  type BitbucketPullRequest,
+  type BitbucketRepository,
+  type BitbucketServerCommit,
+  type BitbucketServerPullRequest,
+  type BitbucketServerRepository,
+} from './bitbucketMapper';
+import {
+  createBitbucketServerClient,
+  type BitbucketServerClient,
+  type BitbucketServerPage,
+  type BitbucketServerUser,
+} from './bitbucketServerClient';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type BitbucketServiceConfig = {
+  token?: string;
+  /** Bitbucket Cloud API URL (the default), or the base URL of a Bitbucket Server / Data Center instance */
+  baseUrl?: string;
+  /** Max repositories scanned at once (defaults to 4) */
+  concurrency?: number;
+  /** Per-host circuit breakers shared by every client this service creates */
+  circuitBreakers?: CircuitBreakers;
+};
+
+export type BitbucketService = {
+  /** `query.user` is the account UUID (Cloud) or user slug (Server) returned by fetchAuthenticatedUsername */
+  fetchContributionData(query: ContributionQuery, token?: string): Promise<ContributionData>;
+  /** Resolves the account UUID (Cloud) or user slug (Server) of the token owner */
+  fetchAuthenticatedUsername(token: string): Promise<string>;
+};
+
+/**
+ * Pagination settings for Bitbucket API.
+ */
+const BITBUCKET_PAGINATION = {
+  /** Maximum items per page (Bitbucket's limit is 100) */
+  PAGE_LEN: 100,
+  /** Maximum pages to fetch per listing (safety limit) */
+  MAX_PAGES: 20,
+  /** Maximum repositories to scan for commits (safety limit) */
+  MAX_REPOSITORIES: 100,
+  /** Default max repositories scanned at once */
+  CONCURRENCY: 4,
+} as const;
+
+// Host of the Bitbucket Cloud REST API; any other host is treated as a Bitbucket Server
+const BITBUCKET_CLOUD_API_HOST = 'api.bitbucket.org';
+
+/**
+ * Items of a listing; `truncated` is set when the page limit cut it off.
+ */
+type PaginatedResult<T> = {
+  items: T[];
+  truncated: boolean;
+};
+
+// ============================================================================
+// Service Factory
+// ============================================================================
+
+/**
+ * Creates a Bitbucket service for fetching contribution data.
+ */
+export function createBitbucketService(config: BitbucketServiceConfig = {}): BitbucketService {
+  const { circuitBreakers } = config;
+  if (config.baseUrl !== undefined && !URL.canParse(config.baseUrl)) {
+    throw new Error(`Invalid Bitbucket base URL "${config.baseUrl}"`);
+  }
+
+  // Self-hosted instances speak the Bitbucket Server API
+  const serverBaseUrl = config.baseUrl !== undefined && !isBitbucketCloudUrl(config.baseUrl)
+    ? config.baseUrl
+    : undefined;
+  const concurrency = config.concurrency ?? BITBUCKET_PAGINATION.CONCURRENCY;
+  const defaultClient = createBitbucketClient({
+    token: config.token,
+    baseUrl: config.baseUrl,
+    circuitBreakers,
+  });
+
+  return {
+    async fetchContributionData(query: ContributionQuery, token?: string): Promise<ContributionData> {
+      const { fromDate, toDate, timeZone } = query;
+
+      if (serverBaseUrl !== undefined) {
+        const serverClient = createBitbucketServerClient({
+          token: token ?? config.token,
+          baseUrl: serverBaseUrl,
+          circuitBreakers,
+        });
+        return fetchServerContributionData(serverClient, query, createConcurrencyLimiter(concurrency));
+      }
+
+      // Use per-request token if provided, otherwise use default client
+      const client = token !== undefined
+        ? createBitbucketClient({ token, baseUrl: config.baseUrl, circuitBreakers })
+        : defaultClient;
+
+      const limit = createConcurrencyLimiter(concurrency);
+      const [commits, pullRequests] = await Promise.all([
+        fetchUserCommits(client, query.user, fromDate, toDate, timeZone, limit),
+        fetchUserPullRequests(client, query.user, fromDate, toDate, timeZone),
+      ]);
+      console.log(`[bitbucket-service] Authored commits fetched: ${commits.items.length}`);
+      console.log(`[bitbucket-service] Pull requests fetched: ${pullRequests.items.length}`);
+
+      const data = mapContributionData(commits.items, pullRequests.items, query.user, fromDate, toDate, timeZone);
+      return withTruncation(data, commits.truncated, pullRequests.truncated);
+    },
+
+    async fetchAuthenticatedUsername(token: string): Promise<string> {
+      if (serverBaseUrl !== undefined) {
+        const serverClient = createBitbucketServerClient({ token, baseUrl: serverBaseUrl, circuitBreakers });
+        const user = await serverClient.getAuthenticatedUser();
+        return user.slug;
+      }
+
+      const client = createBitbucketClient({ token, baseUrl: config.baseUrl, circuitBreakers });
+      const user = await client.getAuthenticatedUser();
+      return user.uuid;
+    },
+  };
+}
+
+/**
+ * Marks data as incomplete when the commit or pull request listings were cut off.
+ */
+function withTruncation(
+  data: ContributionData,
+  commitsTruncated: boolean,
+  pullRequestsTruncated: boolean,
+): ContributionData {
+  const incomplete = [
+    commitsTruncated ? 'commits' : undefined,
+    pullRequestsTruncated ? 'pull requests' : undefined,
+  ].filter((part) => part !== undefined);
+
+  return incomplete.length > 0
+    ? { ...data, incomplete: `Bitbucket ${incomplete.join(' and ')} were cut off by safety limits` }
+    : data;
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Whether a base URL points at the Bitbucket Cloud API.
+ */
+function isBitbucketCloudUrl(baseUrl: string): boolean {
+  try {
+    return new URL(baseUrl).host === BITBUCKET_CLOUD_API_HOST;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetches pages of a listing, following `next` links, up to MAX_PAGES pages.
+ * Stops early when `shouldStop` returns true for a page.
+ */
+async function fetchPaginated<T>(
+  client: BitbucketClient,
+  path: string,
+  params: Record<string, string | number>,
+  shouldStop?: (page: T[]) => boolean,
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let next: string | undefined;
+  let pageCount = 0;
+
+  while (pageCount < BITBUCKET_PAGINATION.MAX_PAGES) {
+
+    const result = next
+      ? await client.getPage<T>(next)
+      : await client.getPage<T>(path, { ...params, pagelen: BITBUCKET_PAGINATION.PAGE_LEN });
+    pageCount++;
+
+    if (!Array.isArray(result.values)) {
+      throw upstreamError(`Bitbucket API returned unexpected data format for ${path}`);
+    }
+
+    items.push(...result.values);
+
+    // Stop if no more pages
+    if (!result.next || (shouldStop && shouldStop(result.values))) {
+      return { items, truncated: false };
+    }
+
+    next = result.next;
+  }
+
+  console.warn(`[bitbucket-service] ${path} truncated after ${BITBUCKET_PAGINATION.MAX_PAGES} pages`);
+  return { items, truncated: true };
+}
+
+/**
+ * Fetches commits authored by the user across all member repositories.
+ * Repositories are scanned concurrently (bounded by `limit`).
+ */
+async function fetchUserCommits(
+  client: BitbucketClient,
+  userUuid: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone: string | undefined,
+  limit: ConcurrencyLimiter,
+): Promise<PaginatedResult<BitbucketCommit>> {
+  const rangeStart = getDayStartIso(fromDateIso, timeZone);
+  const repositories = await fetchPaginated<BitbucketRepository>(client, '/repositories', {
+    role: 'member',
+    q: `updated_on >= ${rangeStart}`,
+  });
+
+  const scanned = repositories.items.slice(0, BITBUCKET_PAGINATION.MAX_REPOSITORIES);
+  console.log(`[bitbucket-service] Scanning ${scanned.length}/${repositories.items.length} repositories`);
+
+  const repoResults = await Promise.all(
+    scanned.map((repository) => limit(() => fetchPaginated<BitbucketCommit>(
+      client,
+      `/repositories/${repository.full_name}/commits`,
+      {},
+      (page) => page.length > 0 && new Date(page[page.length - 1].date).toISOString() < rangeStart,
+    )))
+  );
+
+  const commits: BitbucketCommit[] = [];
+  const seenHashes = new Set<string>();
+
+  for (const repoCommits of repoResults) {
+    // The same commit can appear in forks, count it once
+    for (const commit of repoCommits.items) {
+      if (seenHashes.has(commit.hash) || !isCommitByUser(commit, userUuid)) continue;
+      const date = toLocalDateIso(commit.date, timeZone);
+      if (date < fromDateIso || date > toDateIso) continue;
+      seenHashes.add(commit.hash);
+      commits.push(commit);
+    }
+  }
+
+  return {
+    items: commits,
+    truncated: repositories.truncated
+      || repositories.items.length > scanned.length
+      || repoResults.some((result) => result.truncated),
+  };
+}
+
+/**
+ * Fetches pull requests opened by the user in the date range.
+ */
+async function fetchUserPullRequests(
+  client: BitbucketClient,
+  userUuid: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string,
+): Promise<PaginatedResult<BitbucketPullRequest>> {
+  return fetchPaginated<BitbucketPullRequest>(
+    client,
+    `/pullrequests/${encodeURIComponent(userUuid)}`,
+    {
+      q: [
+        '(state = "OPEN" OR state = "MERGED" OR state = "DECLINED" OR state = "SUPERSEDED")',
+        `created_on >= ${getDayStartIso(fromDateIso, timeZone)}`,
+        `created_on <= ${getDayEndIso(toDateIso, timeZone)}`,
+      ].join(' AND '),
+    },
+  );
+}
+
+// ============================================================================
+// Fetching (Bitbucket Server / Data Center)
+// ============================================================================
+
+/**
+ * Fetches and maps contribution data from a Bitbucket Server instance.
+ * `query.user` is the user slug.
+ */
+async function fetchServerContributionData(
+  client: BitbucketServerClient,
+  query: ContributionQuery,
+  limit: ConcurrencyLimiter,
+): Promise<ContributionData> {
+  const { fromDate, toDate, timeZone } = query;
+  const user = await client.get<BitbucketServerUser>(`/users/${encodeURIComponent(query.user)}`);
+
+  const [commits, pullRequests] = await Promise.all([
+    fetchServerUserCommits(client, user, fromDate, toDate, timeZone, limit),
+    fetchServerUserPullRequests(client, fromDate, timeZone),
+  ]);
+  console.log(`[bitbucket-service] Authored commits fetched: ${commits.items.length}`);
+  console.log(`[bitbucket-service] Pull requests fetched: ${pullRequests.items.length}`);
+
+  const data = mapContributionData(
+    commits.items.map(mapServerCommit),
+    pullRequests.items.map(mapServerPullRequest),
+    query.user,
+    fromDate,
+    toDate,
+    timeZone,
+  );
+  return withTruncation(data, commits.truncated, pullRequests.truncated);
+}
+
+/**
+ * Fetches pages of a Bitbucket Server listing, following `nextPageStart`, up to MAX_PAGES pages.
+ * Stops early when `shouldStop` returns true for a page.
+ */
+async function fetchServerPaginated<T>(
+  client: BitbucketServerClient,
+  path: string,
+  params: Record<string, string | number>,
+  shouldStop?: (page: T[]) => boolean,
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let start = 0;
+  let pageCount = 0;
+
+  while (pageCount < BITBUCKET_PAGINATION.MAX_PAGES) {
+    const result = await client.get<BitbucketServerPage<T>>(path, {
+      ...params,
+      start,
+      limit: BITBUCKET_PAGINATION.PAGE_LEN,
+    });
+    pageCount++;
+
+    if (!Array.isArray(result.values)) {
+      throw upstreamError(`Bitbucket Server API returned unexpected data format for ${path}`);
+    }
+
+    items.push(...result.values);
+
+    // Stop if no more pages
+    if (result.isLastPage || result.nextPageStart === undefined || (shouldStop && shouldStop(result.values))) {
+      return { items, truncated: false };
+    }
+
+    start = result.nextPageStart;
+  }
+
+  console.warn(`[bitbucket-service] ${path} truncated after ${BITBUCKET_PAGINATION.MAX_PAGES} pages`);
+  return { items, truncated: true };
+}
+
+/**
+ * Fetches commits authored by the user across all repositories they can push to.
+ * Repositories are scanned concurrently (bounded by `limit`).
+ */
+async function fetchServerUserCommits(
+  client: BitbucketServerClient,
+  user: BitbucketServerUser,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone: string | undefined,
+  limit: ConcurrencyLimiter,
+): Promise<PaginatedResult<BitbucketServerCommit>> {
+  const rangeStart = Date.parse(getDayStartIso(fromDateIso, timeZone));
+  const repositories = await fetchServerPaginated<BitbucketServerRepository>(client, '/repos', {
+    permission: 'REPO_WRITE',
+  });
+
+  const scanned = repositories.items.slice(0, BITBUCKET_PAGINATION.MAX_REPOSITORIES);
+  console.log(`[bitbucket-service] Scanning ${scanned.length}/${repositories.items.length} repositories`);
+
+  const repoResults = await Promise.all(
+    scanned.map((repository) => limit(() => fetchServerPaginated<BitbucketServerCommit>(
+      client,
+      `/projects/${encodeURIComponent(repository.project.key)}/repos/${encodeURIComponent(repository.slug)}/commits`,
+      {},
+      (page) => page.length > 0 && page[page.length - 1].authorTimestamp < rangeStart,
+    )))
+  );
+
+  const commits: BitbucketServerCommit[] = [];
+  const seenIds = new Set<string>();
+
+  for (const repoCommits of repoResults) {
+    // The same commit can appear in forks, count it once
+    for (const commit of repoCommits.items) {
+      if (seenIds.has(commit.id) || !isServerCommitByUser(commit, user)) continue;
+      const date = toLocalDateIso(new Date(commit.authorTimestamp), timeZone);
+      if (date < fromDateIso || date > toDateIso) continue;
+      seenIds.add(commit.id);
+      commits.push(commit);
+    }
+  }
+
+  return {
+    items: commits,
+    truncated: repositories.truncated
+      || repositories.items.length > scanned.length
+      || repoResults.some((result) => result.truncated),
+  };
+}
+
+/**
+ * Fetches pull requests opened by the token owner, newest first, back to the range start.
+ * Pull requests after the range are dropped by mapContributionData.
+ */
+async function fetchServerUserPullRequests(
+  client: BitbucketServerClient,
+  fromDateIso: string,
+  timeZone?: string,
+): Promise<PaginatedResult<BitbucketServerPullRequest>> {
+  const rangeStart = Date.parse(getDayStartIso(fromDateIso, timeZone));
+  const pullRequests = await fetchServerPaginated<BitbucketServerPullRequest>(
+    client,
+    '/dashboard/pull-requests',
+    { role: 'AUTHOR', state: 'ALL', order: 'NEWEST' },
+    (page) => page.length > 0 && page[page.length - 1].createdDate < rangeStart,
+  );
+
+  return {
+    items: pullRequests.items.filter((pullRequest) => pullRequest.createdDate >= rangeStart),
+    truncated: pullRequests.truncated,
+  };
+}
@@ -0,0 +1,18 @@
+// Registers the Bitbucket service as a contribution source.
+
+import type { ContributionSource } from "../contributionSource";
+import type { BitbucketService } from "./bitbucketService";
+
+/**
+ * The resolved "user" is the Bitbucket account UUID, or the user slug on Bitbucket Server.
+ */
+export function createBitbucketSource(service: BitbucketService): ContributionSource {
+  return {
+    provider: "bitbucket",
+    displayName: "Bitbucket",
+    cacheKeyPrefix: "bb",
+    supportsBaseUrl: false,
+    resolveUser: (credentials) => service.fetchAuthenticatedUsername(credentials.token),
+    fetchContributionData: (query, credentials) => service.fetchContributionData(query, credentials.token),
+  };
+}
@@ -0,0 +1,88 @@
+// Contract every contribution provider implements, plus the registry the service iterates over.
+
+import type { Provider } from "../domain/provider";
+import type { ContributionQuery, ContributionData } from "../domain/contributions";
+
+/**
+ * Per-request credentials for a single source.
+ */
+export type SourceCredentials = {
+  token: string;
+  /** Optional instance base URL (self-hosted). Only used by sources with supportsBaseUrl. */
+  baseUrl?: string;
+  /** Already-known user identifier; skips resolving it from the token when set. */
+  user?: string;
+  /** Source-specific query options, keyed by parameter name (see ContributionSource.optionParams) */
+  options?: Record<string, string>;
+};
+
+/**
+ * A contribution data source (GitHub, GitLab, ...).
+ * Adding a provider means implementing this once and registering it.
+ */
+export type ContributionSource = {
+  /** Provider identifier. Also the query parameter prefix (e.g. "github" → `githubtoken`). */
+  provider: Provider;
+  /** Human-readable name for logs and error messages */
+  displayName: string;
+  /** Short identifier used in cache keys (e.g. "gh") */
+  cacheKeyPrefix: string;
+  /** Whether a per-request base URL (`<provider>baseurl`) is accepted */
+  supportsBaseUrl: boolean;
+  /** Query parameter carrying the credential, when it is not a token (defaults to `<provider>token`) */
+  credentialParam?: string;
+  /** Set to false for sources whose data is already stored locally (defaults to true) */
+  cacheable?: boolean;
+  /** Extra query parameters passed through as credentials.options (e.g. `gitlabprofile`) */
+  optionParams?: string[];
+  /** Throws an AppError when options are invalid, so bad input fails before any upstream call */
+  validateOptions?(options: Record<string, string>): void;
+  /** Resolves the user identifier the token belongs to */
+  resolveUser(credentials: SourceCredentials): Promise<string>;
+  fetchContributionData(query: ContributionQuery, credentials: SourceCredentials): Promise<ContributionData>;
+};
+
+export type SourceRegistry = {
+  register(source: ContributionSource): void;
+  get(provider: Provider): ContributionSource | undefined;
+  /** All registered sources, in registration order */
+  list(): ContributionSource[];
+};
+
+/**
+ * Returns the query parameter name that carries a source's credential.
+ */
+export function getCredentialParam(source: ContributionSource): string {
+  return source.credentialParam ?? `${source.provider}token`;
+}
+
+/**
+ * Creates a registry of contribution sources.
+ * Registration order is preserved and used for merging and display.
+ */
+export function createSourceRegistry(sources: ContributionSource[] = []): SourceRegistry {
+  const registry = new Map<Provider, ContributionSource>();
+
+  const api: SourceRegistry = {
+    register(source: ContributionSource): void {
+      if (registry.has(source.provider)) {
+        throw new Error(`Contribution source "${source.provider}" is already registered`);
+      }
+      registry.set(source.provider, source);
+    },
+
+    get(provider: Provider): ContributionSource | undefined {
+      return registry.get(provider);
+    },
+
+    list(): ContributionSource[] {
+      return Array.from(registry.values());
+    },
+  };
+
+  for (const source of sources) {
+    api.register(source);
+  }
+
+  return api;
+}
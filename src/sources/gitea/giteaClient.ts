@@ -0,0 +1,107 @@
+// Low-level REST client for Gitea/Forgejo API.
+
+import { unauthorized } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { fetchWithRetry, isRejectedCredentials } from "../../utils/network";
+
+// Codeberg is the largest public Forgejo instance
+export const DEFAULT_GITEA_BASE_URL = "https://codeberg.org";
+
+export type GiteaClientConfig = {
+  token?: string;
+  baseUrl?: string;
+  /** Checked before and updated after every request (see fetchWithRetry) */
+  circuitBreakers?: CircuitBreakers;
+};
+
+export type GiteaClient = {
+  get<T>(path: string, params?: Record<string, string | number>): Promise<T>;
+  getAuthenticatedUser(): Promise<string>;
+};
+
+/**
+ * Creates a low-level Gitea REST client.
+ * Works against both Gitea and Forgejo since Forgejo keeps the Gitea API (/api/v1).
+ * Transient failures and short rate limits are retried (see fetchWithRetry).
+ */
+export function createGiteaClient(config: GiteaClientConfig = {}): GiteaClient {
+  const { token, circuitBreakers, baseUrl = DEFAULT_GITEA_BASE_URL } = config;
+
+  function buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Accept": "application/json",
+      "User-Agent": "git-heatmaps",
+    };
+
+    if (token) {
+      headers["Authorization"] = `token ${token}`;
+    }
+
+    return headers;
+  }
+
+  /**
+   * Joins an API path onto the base URL, keeping its path prefix
+   * (e.g. https://example.com/gitea + /user → https://example.com/gitea/api/v1/user).
+   */
+  function buildApiUrl(path: string): URL {
+    return new URL(`${baseUrl.replace(/\/+$/, "")}/api/v1${path}`);
+  }
+
+  return {
+    async get<T>(path: string, params?: Record<string, string | number>): Promise<T> {
+      const url = buildApiUrl(path);
+
+      if (params) {
+        for (const [key, value] of Object.entries(params)) {
+          url.searchParams.set(key, String(value));
+        }
+      }
+
+      console.log(`[gitea-client] GET ${url.pathname}${url.search}`);
+
+      const response = await fetchWithRetry(url.toString(), {
+        method: "GET",
+        headers: buildHeaders(),
+      }, { circuitBreakers });
+
+      console.log(`[gitea-client] Response: ${response.status} ${response.statusText}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[gitea-client] Error response body: ${errorBody}`);
+        throw new Error(`Gitea API error: ${response.status} ${response.statusText}`);
+      }
+
+      return await response.json() as T;
+    },
+
+    async getAuthenticatedUser(): Promise<string> {
+      console.log(`[gitea-client] Fetching authenticated user`);
+
+      const url = buildApiUrl("/user");
+
+      const response = await fetchWithRetry(url.toString(), {
+        method: "GET",
+        headers: buildHeaders(),
+      }, { circuitBreakers });
+
+      console.log(`[gitea-client] Response: ${response.status} ${response.statusText}`);
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`[gitea-client] Error response body: ${errorBody}`);
+        const message = `Gitea authentication failed: ${response.status} ${response.statusText}`;
+        throw isRejectedCredentials(response.status) ? unauthorized(message) : new Error(message);
+      }
+
+      const data = await response.json() as { login?: string };
+
+      if (!data.login) {
+        throw new Error("Gitea API returned no username");
+      }
+
+      return data.login;
+    },
+  };
+}
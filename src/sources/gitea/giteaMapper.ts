@@ -0,0 +1,104 @@
+// Maps Gitea/Forgejo API responses to domain models.
+
+import type { ContributionDay, ContributionData, ContributionHistoryPoint, ContributionHistory } from "../../domain/contributions";
+import { toLocalDateIso } from "../../utils/timezone";
+
+// Gitea API response types for the user heatmap
+
+/**
+ * A single heatmap bucket. Gitea groups actions into 15-minute buckets,
+ * so one day is usually spread across several entries.
+ */
+export type GiteaHeatmapEntry = {
+  timestamp: number; // Unix seconds
+  contributions: number;
+};
+
+// Gitea API response types for the user activity feed
+
+/**
+ * A single activity feed entry; only the fields used for counting are typed.
+ */
+export type GiteaActivity = {
+  id: number;
+  op_type: string;
+  created: string; // ISO 8601
+};
+
+/**
+ * Turns feed activities into heatmap buckets of one contribution each,
+ * so both endpoints share the same aggregation.
+ */
+export function mapActivitiesToHeatmap(activities: GiteaActivity[]): GiteaHeatmapEntry[] {
+  return activities.map((activity) => ({
+    timestamp: Math.floor(Date.parse(activity.created) / 1000),
+    contributions: 1,
+  }));
+}
+
+/**
+ * Sums heatmap buckets into per-day counts within a date range (inclusive).
+ * Days are bucketed in the given timezone (UTC when omitted), like the GitLab aggregator.
+ */
+function aggregateHeatmapByDay(
+  entries: GiteaHeatmapEntry[],
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string
+): Map<string, number> {
+  const dailyMap = new Map<string, number>();
+
+  for (const entry of entries) {
+    const date = toLocalDateIso(new Date(entry.timestamp * 1000), timeZone);
+    if (date < fromDateIso || date > toDateIso) continue;
+    dailyMap.set(date, (dailyMap.get(date) ?? 0) + entry.contributions);
+  }
+
+  return dailyMap;
+}
+
+/**
+ * Maps Gitea heatmap response to domain ContributionData.
+ */
+export function mapContributionData(
+  entries: GiteaHeatmapEntry[],
+  user: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string
+): ContributionData {
+  const days: ContributionDay[] = Array.from(aggregateHeatmapByDay(entries, fromDateIso, toDateIso, timeZone).entries())
+    .map(([dateIso, count]) => ({ dateIso, count }));
+
+  // Sort by date ascending for consistent output
+  days.sort((a, b) => a.dateIso.localeCompare(b.dateIso));
+
+  return {
+    provider: "gitea",
+    user,
+    days,
+  };
+}
+
+/**
+ * Maps Gitea heatmap response to domain ContributionHistory.
+ */
+export function mapContributionHistory(
+  entries: GiteaHeatmapEntry[],
+  user: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string
+): ContributionHistory {
+  const points: ContributionHistoryPoint[] = Array.from(aggregateHeatmapByDay(entries, fromDateIso, toDateIso, timeZone).entries())
+    .map(([dateIso, count]) => ({ dateIso, count }));
+
+  // Sort by date ascending for consistent output
+  points.sort((a, b) => a.dateIso.localeCompare(b.dateIso));
+
+  return {
+    provider: "gitea",
+    user,
+    points,
+  };
+}
@@ -0,0 +1,176 @@
+// Public interface for Gitea/Forgejo contributions - used by services layer.
+
+import type { ContributionQuery, ContributionData, ContributionHistory } from "../../domain/contributions";
+import { upstreamError } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { getDayStartIso } from "../../utils/timezone";
+import { createGiteaClient, type GiteaClient } from "./giteaClient";
+import {
+  mapContributionData,
+  mapContributionHistory,
+  mapActivitiesToHeatmap,
+  type GiteaActivity,
+  type GiteaHeatmapEntry,
+} from "./giteaMapper";
+
+/**
+ * Gitea's heatmap endpoint only includes actions from the last 365 days.
+ */
+const GITEA_HEATMAP_WINDOW_DAYS = 365;
+
+const GITEA_FEED_PAGINATION = {
+  /** Items per page (Gitea caps this at MAX_RESPONSE_ITEMS, 50 by default) */
+  PER_PAGE: 50,
+  /** Maximum feed pages to walk back through (safety limit); total: 5,000 activities */
+  MAX_PAGES: 100,
+};
+
+/**
+ * Heatmap buckets for a range; `truncated` is set when the feed walk hit its page limit.
+ */
+type ActivityEntries = {
+  entries: GiteaHeatmapEntry[];
+  truncated: boolean;
+};
+
+export type GiteaServiceConfig = {
+  token?: string;
+  baseUrl?: string;
+  /** Per-host circuit breakers shared by every client this service creates */
+  circuitBreakers?: CircuitBreakers;
+};
+
+export type GiteaService = {
+  fetchContributionData(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionData>;
+  fetchContributionHistory(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionHistory>;
+  fetchAuthenticatedUsername(token: string, baseUrl?: string): Promise<string>;
+};
+
+/**
+ * Creates a Gitea service for fetching contribution data from Gitea or Forgejo.
+ *
+ * Data comes from the heatmap endpoint, which only covers the last year. Ranges reaching
+ * further back are read from the user's activity feed instead, which is paged newest-first
+ * and marks the data as incomplete when the page limit is hit before the range start.
+ */
+export function createGiteaService(config: GiteaServiceConfig = {}): GiteaService {
+  const { circuitBreakers } = config;
+  const defaultClient = createGiteaClient({
+    token: config.token,
+    baseUrl: config.baseUrl,
+    circuitBreakers,
+  });
+
+  function resolveClient(token?: string, baseUrl?: string): GiteaClient {
+    // Use per-request token/baseUrl if provided, otherwise use default client
+    return token !== undefined || baseUrl !== undefined
+      ? createGiteaClient({ token: token ?? config.token, baseUrl: baseUrl ?? config.baseUrl, circuitBreakers })
+      : defaultClient;
+  }
+
+  return {
+    async fetchContributionData(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionData> {
+      const { entries, truncated } = await fetchActivityEntries(resolveClient(token, baseUrl), query);
+      console.log(`[gitea-service] Heatmap entries fetched: ${entries.length}`);
+      const data = mapContributionData(entries, query.user, query.fromDate, query.toDate, query.timeZone);
+      return truncated
+        ? { ...data, incomplete: "Gitea activity feed was cut off by safety limits" }
+        : data;
+    },
+
+    async fetchContributionHistory(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionHistory> {
+      const { entries } = await fetchActivityEntries(resolveClient(token, baseUrl), query);
+      return mapContributionHistory(entries, query.user, query.fromDate, query.toDate, query.timeZone);
+    },
+
+    async fetchAuthenticatedUsername(token: string, baseUrl?: string): Promise<string> {
+      const client = createGiteaClient({ token, baseUrl: baseUrl ?? config.baseUrl, circuitBreakers });
+      return client.getAuthenticatedUser();
+    },
+  };
+}
+
+/**
+ * Internal helper to fetch the user heatmap from Gitea.
+ */
+async function fetchUserHeatmap(
+  client: GiteaClient,
+  username: string
+): Promise<GiteaHeatmapEntry[]> {
+  const data = await client.get<GiteaHeatmapEntry[]>(
+    `/users/${encodeURIComponent(username)}/heatmap`
+  );
+
+  if (!Array.isArray(data)) {
+    throw upstreamError(`Gitea API returned unexpected data format for user: ${username}`);
+  }
+
+  return data;
+}
+
+/**
+ * Internal helper to fetch the activity behind a range: the heatmap when the range
+ * lies inside its window, the activity feed otherwise.
+ */
+async function fetchActivityEntries(
+  client: GiteaClient,
+  query: ContributionQuery
+): Promise<ActivityEntries> {
+  if (isWithinHeatmapWindow(query.fromDate)) {
+    return { entries: await fetchUserHeatmap(client, query.user), truncated: false };
+  }
+
+  console.log(`[gitea-service] ${query.fromDate} is outside the heatmap window, reading the activity feed`);
+  const { activities, truncated } = await fetchUserActivities(
+    client,
+    query.user,
+    getDayStartIso(query.fromDate, query.timeZone)
+  );
+  return { entries: mapActivitiesToHeatmap(activities), truncated };
+}
+
+/**
+ * Internal helper to walk the user's own activity feed back to a start instant.
+ * The feed is newest-first, so paging stops at the first page reaching past the start.
+ */
+async function fetchUserActivities(
+  client: GiteaClient,
+  username: string,
+  sinceIso: string
+): Promise<{ activities: GiteaActivity[]; truncated: boolean }> {
+  const since = Date.parse(sinceIso);
+  const activities: GiteaActivity[] = [];
+
+  for (let page = 1; page <= GITEA_FEED_PAGINATION.MAX_PAGES; page++) {
+    const data = await client.get<GiteaActivity[]>(
+      `/users/${encodeURIComponent(username)}/activities/feeds`,
+      { "only-performed-by": "true", page, limit: GITEA_FEED_PAGINATION.PER_PAGE }
+    );
+
+    if (!Array.isArray(data)) {
+      throw upstreamError(`Gitea API returned unexpected data format for user: ${username}`);
+    }
+
+    activities.push(...data);
+
+    const oldest = data[data.length - 1];
+    if (data.length < GITEA_FEED_PAGINATION.PER_PAGE || Date.parse(oldest.created) < since) {
+      return { activities, truncated: false };
+    }
+  }
+
+  console.warn(`[gitea-service] Activity feed: truncated after ${GITEA_FEED_PAGINATION.MAX_PAGES} pages`);
+  return { activities, truncated: true };
+}
+
+/**
+ * Whether a range start lies inside the heatmap window.
+ * Ranges are fetched in whole months, so the month the window starts in is accepted.
+ */
+function isWithinHeatmapWindow(fromDate: string): boolean {
+  const windowStart = new Date(Date.now() - GITEA_HEATMAP_WINDOW_DAYS * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+  return fromDate.slice(0, 7) >= windowStart.slice(0, 7);
+}
@@ -0,0 +1,16 @@
+// Registers the Gitea/Forgejo service as a contribution source.
+
+import type { ContributionSource } from "../contributionSource";
+import type { GiteaService } from "./giteaService";
+
+export function createGiteaSource(service: GiteaService): ContributionSource {
+  return {
+    provider: "gitea",
+    displayName: "Gitea",
+    cacheKeyPrefix: "gt",
+    supportsBaseUrl: true,
+    resolveUser: (credentials) => service.fetchAuthenticatedUsername(credentials.token, credentials.baseUrl),
+    fetchContributionData: (query, credentials) =>
+      service.fetchContributionData(query, credentials.token, credentials.baseUrl),
+  };
+}
@@ -1,11 +1,15 @@
 // Low-level GraphQL HTTP client for GitHub API.
 
-import { fetchWithTimeout } from "../../utils/network";
+import { rateLimited, unauthorized } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { fetchWithRetry, getRateLimitWaitMs, isRejectedCredentials } from "../../utils/network";
 
-const GITHUB_GRAPHQL_ENDPOINT = "https://api.github.com/graphql";
+export const GITHUB_GRAPHQL_ENDPOINT = "https://api.github.com/graphql";
 
 export type GitHubClientConfig = {
   token: string;
+  /** Checked before and updated after every request (see fetchWithRetry) */
+  circuitBreakers?: CircuitBreakers;
 };
 
 export type GraphQlResponse<T> = {
@@ -25,19 +29,19 @@ export type GitHubClient = {
 
 /**
  * Creates a low-level GitHub GraphQL client.
+ * Transient failures and short rate limits are retried (see fetchWithRetry);
+ * longer rate limits throw a rateLimited AppError.
  * 
- * TODO: Add proper error handling for network failures
- * TODO: Add rate limit handling (check X-RateLimit-* headers)
  * TODO: Add request/response logging for debugging
  */
 export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
-  const { token } = config;
+  const { token, circuitBreakers } = config;
 
   return {
     async query<T>(graphql: string, variables?: Record<string, unknown>): Promise<GraphQlResponse<T>> {
       console.log(`[github-client] POST /graphql (user: ${variables?.username ?? "unknown"})`);
 
-      const response = await fetchWithTimeout(GITHUB_GRAPHQL_ENDPOINT, {
+      const response = await fetchWithRetry(GITHUB_GRAPHQL_ENDPOINT, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -48,7 +52,7 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
           query: graphql,
           variables,
         }),
-      });
+      }, { circuitBreakers });
 
       console.log(`[github-client] Response: ${response.status} ${response.statusText}`);
 
@@ -62,6 +66,13 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
 
       if (json.errors) {
         console.error(`[github-client] GraphQL errors:`, json.errors);
+
+        // The GraphQL API can also report an exhausted limit with a 200 response
+        if (json.errors.some((error) => error.type === "RATE_LIMITED")) {
+          const waitMs = getRateLimitWaitMs(response.headers);
+          const retryAfterSeconds = waitMs === undefined ? undefined : Math.ceil(waitMs / 1000);
+          throw rateLimited("GitHub API rate limit exceeded", retryAfterSeconds);
+        }
       }
 
       return json;
@@ -70,7 +81,7 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
     async getAuthenticatedUser(): Promise<string> {
       console.log(`[github-client] Fetching authenticated user`);
 
-      const response = await fetchWithTimeout(GITHUB_GRAPHQL_ENDPOINT, {
+      const response = await fetchWithRetry(GITHUB_GRAPHQL_ENDPOINT, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
@@ -80,14 +91,15 @@ export function createGitHubClient(config: GitHubClientConfig): GitHubClient {
         body: JSON.stringify({
           query: `query { viewer { login } }`,
         }),
-      });
+      }, { circuitBreakers });
 
       console.log(`[github-client] Response: ${response.status} ${response.statusText}`);
 
       if (!response.ok) {
         const errorBody = await response.text();
         console.error(`[github-client] Error response body: ${errorBody}`);
-        throw new Error(`GitHub API error: ${response.status} ${response.statusText}`);
+        const message = `GitHub authentication failed: ${response.status} ${response.statusText}`;
+        throw isRejectedCredentials(response.status) ? unauthorized(message) : new Error(message);
       }
 
       const json = await response.json() as GraphQlResponse<{ viewer: { login: string } }>;
@@ -1,6 +1,14 @@
 // Maps GitHub API responses to domain models.
 
-import type { ContributionDay, ContributionData, ContributionHistoryPoint, ContributionHistory } from "../../domain/contributions";
+import type {
+  ContributionDay,
+  ContributionData,
+  ContributionHistoryPoint,
+  ContributionHistory,
+  ContributionType,
+} from "../../domain/contributions";
+import type { ContributionConnectionField } from "./githubQueries";
+import { toLocalDateIso } from "../../utils/timezone";
 
 // GitHub API response types for contribution calendar
 
@@ -30,6 +38,62 @@ export type GitHubContributionCalendarResponse = {
   user: GitHubUser | null;
 };
 
+// GitHub API response types for the contribution breakdown
+
+export type GitHubContributionNode = {
+  occurredAt: string; // ISO 8601 datetime
+};
+
+export type GitHubCommitContributionNode = GitHubContributionNode & {
+  commitCount: number;
+};
+
+export type GitHubPageInfo = {
+  hasNextPage: boolean;
+  endCursor: string | null;
+};
+
+export type GitHubContributionConnection = {
+  pageInfo: GitHubPageInfo;
+  nodes: GitHubContributionNode[];
+};
+
+export type GitHubCommitContributionsByRepository = {
+  contributions: {
+    pageInfo: GitHubPageInfo;
+    nodes: GitHubCommitContributionNode[];
+  };
+};
+
+export type GitHubContributionBreakdownResponse = {
+  user: {
+    contributionsCollection: GitHubContributionsCollection &
+      Record<ContributionConnectionField, GitHubContributionConnection> & {
+        totalRepositoriesWithContributedCommits: number;
+        commitContributionsByRepository: GitHubCommitContributionsByRepository[];
+      };
+  } | null;
+};
+
+export type GitHubContributionPageResponse = {
+  user: {
+    contributionsCollection: Partial<Record<ContributionConnectionField, GitHubContributionConnection>>;
+  } | null;
+};
+
+/**
+ * Contributions collected over all windows and pages of a range, ready for mapping.
+ */
+export type GitHubContributionBreakdown = {
+  calendarDays: GitHubContributionDay[];
+  commits: GitHubCommitContributionNode[];
+  pullRequests: GitHubContributionNode[];
+  reviews: GitHubContributionNode[];
+  issues: GitHubContributionNode[];
+  /** Contribution kinds cut off by a query limit (e.g. "commits"), without duplicates */
+  truncated: string[];
+};
+
 /**
  * Maps a single GitHub contribution day to domain ContributionDay.
  */
@@ -41,22 +105,44 @@ export function mapContributionDay(day: GitHubContributionDay): ContributionDay
 }
 
 /**
- * Maps GitHub contribution calendar response to domain ContributionData.
- * Flattens the weeks/days structure into a single array of days.
+ * Maps collected GitHub contributions to domain ContributionData with a per-type breakdown.
+ * Day totals come from the calendar; whatever the typed connections do not explain
+ * (repository creation, restricted private contributions) is counted as "other".
+ *
+ * Typed contributions are bucketed by timeZone (UTC when omitted). The calendar itself
+ * is bucketed by GitHub, so both line up when timeZone matches the profile timezone.
  */
-export function mapContributionData(
-  response: GitHubContributionCalendarResponse,
-  user: string
+export function mapContributionBreakdown(
+  breakdown: GitHubContributionBreakdown,
+  user: string,
+  timeZone?: string
 ): ContributionData {
-  const days: ContributionDay[] = [];
+  const typeCountsByDate = new Map<string, Partial<Record<ContributionType, number>>>();
 
-  if (response.user?.contributionsCollection?.contributionCalendar?.weeks) {
-    for (const week of response.user.contributionsCollection.contributionCalendar.weeks) {
-      for (const day of week.contributionDays) {
-        days.push(mapContributionDay(day));
-      }
+  const addCount = (occurredAt: string, type: ContributionType, count: number): void => {
+    const dateIso = toLocalDateIso(occurredAt, timeZone);
+    const typeCounts = typeCountsByDate.get(dateIso) ?? {};
+    typeCounts[type] = (typeCounts[type] ?? 0) + count;
+    typeCountsByDate.set(dateIso, typeCounts);
+  };
+
+  for (const node of breakdown.commits) addCount(node.occurredAt, "commits", node.commitCount);
+  for (const node of breakdown.pullRequests) addCount(node.occurredAt, "pullRequests", 1);
+  for (const node of breakdown.reviews) addCount(node.occurredAt, "reviews", 1);
+  for (const node of breakdown.issues) addCount(node.occurredAt, "issues", 1);
+
+  const days: ContributionDay[] = breakdown.calendarDays.map((day) => {
+    const typeCounts = { ...typeCountsByDate.get(day.date) };
+    const typed = Object.values(typeCounts).reduce((sum, count) => sum + count, 0);
+    if (day.contributionCount > typed) {
+      typeCounts.other = day.contributionCount - typed;
     }
-  }
+
+    return {
+      ...mapContributionDay(day),
+      typeCounts,
+    };
+  });
 
   // Sort by date ascending for consistent output
   days.sort((a, b) => a.dateIso.localeCompare(b.dateIso));
@@ -65,6 +151,9 @@ export function mapContributionData(
     provider: "github",
     user,
     days,
+    incomplete: breakdown.truncated.length > 0
+      ? `GitHub ${breakdown.truncated.join(" and ")} were cut off by query limits`
+      : undefined,
   };
 }
 
@@ -28,6 +28,91 @@ export const contributionCalendarQuery = `
   }
 `;
 
+/**
+ * Query to fetch the contribution calendar together with the contributions behind it.
+ * The first page of each contribution connection is included; further pages are
+ * fetched with contributionPageQuery.
+ *
+ * Commit contributions are aggregated per repository and day, so one page of 100
+ * covers a repository as long as the range spans at most 100 days.
+ *
+ * Variables:
+ * - $username: String! - GitHub username
+ * - $from: DateTime - Start date
+ * - $to: DateTime - End date
+ */
+export const contributionBreakdownQuery = `
+  query ContributionBreakdown($username: String!, $from: DateTime, $to: DateTime) {
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        contributionCalendar {
+          totalContributions
+          weeks {
+            contributionDays {
+              date
+              contributionCount
+            }
+          }
+        }
+        totalRepositoriesWithContributedCommits
+        commitContributionsByRepository(maxRepositories: 100) {
+          contributions(first: 100) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              occurredAt
+              commitCount
+            }
+          }
+        }
+        pullRequestContributions(first: 100) {
+          pageInfo { hasNextPage endCursor }
+          nodes { occurredAt }
+        }
+        pullRequestReviewContributions(first: 100) {
+          pageInfo { hasNextPage endCursor }
+          nodes { occurredAt }
+        }
+        issueContributions(first: 100) {
+          pageInfo { hasNextPage endCursor }
+          nodes { occurredAt }
+        }
+      }
+    }
+  }
+`;
+
+/**
+ * Paginated contribution connections of a contributionsCollection.
+ */
+export type ContributionConnectionField =
+  | "pullRequestContributions"
+  | "pullRequestReviewContributions"
+  | "issueContributions";
+
+/**
+ * Builds the query for the next page of one contribution connection.
+ *
+ * Variables:
+ * - $username: String! - GitHub username
+ * - $from: DateTime - Start date
+ * - $to: DateTime - End date
+ * - $after: String - Cursor from the previous page
+ */
+export function contributionPageQuery(field: ContributionConnectionField): string {
+  return `
+  query ContributionPage($username: String!, $from: DateTime, $to: DateTime, $after: String) {
+    user(login: $username) {
+      contributionsCollection(from: $from, to: $to) {
+        ${field}(first: 100, after: $after) {
+          pageInfo { hasNextPage endCursor }
+          nodes { occurredAt }
+        }
+      }
+    }
+  }
+`;
+}
+
 /**
  * Query to fetch the authenticated user's login (username).
  * Used to resolve username from an access token.
@@ -2,12 +2,52 @@
 
 import type { ContributionQuery, ContributionData, ContributionHistory } from "../../domain/contributions";
 import { upstreamError } from "../../utils/appError";
-import { createGitHubClient, type GitHubClient, type GitHubClientConfig } from "./githubClient";
-import { contributionCalendarQuery } from "./githubQueries";
-import { mapContributionData, mapContributionHistory, type GitHubContributionCalendarResponse } from "./githubMapper";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { createConcurrencyLimiter, type ConcurrencyLimiter } from "../../utils/concurrency";
+import { getDayEndIso, getDayStartIso } from "../../utils/timezone";
+import { createGitHubClient, type GitHubClient, type GitHubClientConfig, type GraphQlResponse } from "./githubClient";
+import {
+  contributionBreakdownQuery,
+  contributionCalendarQuery,
+  contributionPageQuery,
+  type ContributionConnectionField,
+} from "./githubQueries";
+import {
+  mapContributionBreakdown,
+  mapContributionHistory,
+  type GitHubContributionBreakdown,
+  type GitHubContributionBreakdownResponse,
+  type GitHubContributionCalendarResponse,
+  type GitHubContributionConnection,
+  type GitHubContributionNode,
+  type GitHubContributionPageResponse,
+} from "./githubMapper";
+
+/**
+ * Limits for the per-type contribution breakdown.
+ */
+const GITHUB_BREAKDOWN = {
+  /** Days per breakdown query; commit contributions are per repository and day, 100 per page */
+  WINDOW_DAYS: 100,
+  /** Max pages per contribution connection and window */
+  MAX_PAGES: 10,
+} as const;
+
+/**
+ * Settings for ranges spanning several years.
+ * contributionsCollection rejects ranges over one year, so ranges are fetched per calendar year.
+ */
+const GITHUB_MULTI_YEAR = {
+  /** Default max GitHub queries in flight per request */
+  CONCURRENCY: 4,
+} as const;
 
 export type GitHubServiceConfig = {
   token?: string;
+  /** Max GitHub queries in flight per request (defaults to 4) */
+  concurrency?: number;
+  /** Per-host circuit breakers shared by every client this service creates */
+  circuitBreakers?: CircuitBreakers;
 };
 
 export type GitHubService = {
@@ -19,35 +59,62 @@ export type GitHubService = {
 /**
  * Creates a GitHub service for fetching contribution data.
  * 
+ * Ranges longer than a year are split into calendar years, fetched concurrently
+ * (bounded by config.concurrency) and stitched together. Results are not cached here;
+ * the contribution service caches them per month.
+ *
  * TODO: Add token validation on service creation
  * TODO: Add support for pagination if GitHub ever paginates calendar data
- * TODO: Add support for fetching contributions across multiple years
  */
 export function createGitHubService(config: GitHubServiceConfig): GitHubService {
+  const { circuitBreakers } = config;
   // Create default client if token provided
-  const defaultClient = config.token ? createGitHubClient({ token: config.token }) : undefined;
+  const defaultClient = config.token ? createGitHubClient({ token: config.token, circuitBreakers }) : undefined;
+  const concurrency = config.concurrency ?? GITHUB_MULTI_YEAR.CONCURRENCY;
 
   return {
     async fetchContributionData(query: ContributionQuery, token?: string): Promise<ContributionData> {
-      const client = token ? createGitHubClient({ token }) : defaultClient;
+      const client = token ? createGitHubClient({ token, circuitBreakers }) : defaultClient;
       if (!client) {
         throw new Error("GitHub token is required");
       }
-      const response = await fetchContributionCalendar(client, query);
-      return mapContributionData(response, query.user);
+
+      const limit = createConcurrencyLimiter(concurrency);
+      const years = splitByYear(query.fromDate, query.toDate);
+      if (years.length > 1) {
+        console.log(`[github-service] Fetching ${years.length} yearly chunks (concurrency ${concurrency})`);
+      }
+
+      const chunks = await Promise.all(
+        years.map((year) => fetchContributionBreakdown(client, { ...query, ...year }, limit))
+      );
+
+      return mapContributionBreakdown(mergeBreakdowns(chunks), query.user, query.timeZone);
     },
 
     async fetchContributionHistory(query: ContributionQuery, token?: string): Promise<ContributionHistory> {
-      const client = token ? createGitHubClient({ token }) : defaultClient;
+      const client = token ? createGitHubClient({ token, circuitBreakers }) : defaultClient;
       if (!client) {
         throw new Error("GitHub token is required");
       }
-      const response = await fetchContributionCalendar(client, query);
-      return mapContributionHistory(response, query.user);
+
+      const limit = createConcurrencyLimiter(concurrency);
+      const histories = await Promise.all(
+        splitByYear(query.fromDate, query.toDate).map(async (year) => {
+          const response = await limit(() => fetchContributionCalendar(client, { ...query, ...year }));
+          return mapContributionHistory(response, query.user);
+        })
+      );
+
+      return {
+        provider: "github",
+        user: query.user,
+        points: histories.flatMap((history) => history.points),
+      };
     },
 
     async fetchAuthenticatedUsername(token: string): Promise<string> {
-      const client = createGitHubClient({ token });
+      const client = createGitHubClient({ token, circuitBreakers });
       return client.getAuthenticatedUser();
     },
   };
@@ -63,9 +130,9 @@ async function fetchContributionCalendar(
 ): Promise<GitHubContributionCalendarResponse> {
   const variables: Record<string, unknown> = {
     username: query.user,
-    // GitHub expects ISO 8601 datetime format
-    from: `${query.fromDate}T00:00:00Z`,
-    to: `${query.toDate}T23:59:59Z`,
+    // GitHub expects ISO 8601 datetime format; day bounds follow the requested timezone
+    from: getDayStartIso(query.fromDate, query.timeZone),
+    to: getDayEndIso(query.toDate, query.timeZone),
   };
 
   const result = await client.query<GitHubContributionCalendarResponse>(
@@ -73,6 +140,129 @@ async function fetchContributionCalendar(
     variables
   );
 
+  return requireUserData(result, query.user);
+}
+
+/**
+ * Fetches the calendar and the typed contributions behind it (at most one year).
+ * The range is split into windows so commit contributions fit in one page per repository.
+ */
+async function fetchContributionBreakdown(
+  client: GitHubClient,
+  query: ContributionQuery,
+  limit: ConcurrencyLimiter
+): Promise<GitHubContributionBreakdown> {
+  const windows = splitDateRange(query.fromDate, query.toDate, GITHUB_BREAKDOWN.WINDOW_DAYS);
+  const results = await Promise.all(
+    windows.map((window) => limit(() => fetchBreakdownWindow(client, { ...query, ...window })))
+  );
+
+  return mergeBreakdowns(results);
+}
+
+/**
+ * Concatenates breakdowns of consecutive, non-overlapping ranges.
+ */
+function mergeBreakdowns(results: GitHubContributionBreakdown[]): GitHubContributionBreakdown {
+  return {
+    calendarDays: results.flatMap((result) => result.calendarDays),
+    commits: results.flatMap((result) => result.commits),
+    pullRequests: results.flatMap((result) => result.pullRequests),
+    reviews: results.flatMap((result) => result.reviews),
+    issues: results.flatMap((result) => result.issues),
+    truncated: [...new Set(results.flatMap((result) => result.truncated))],
+  };
+}
+
+/**
+ * Fetches the breakdown for one window, following pagination of each connection.
+ */
+async function fetchBreakdownWindow(
+  client: GitHubClient,
+  query: ContributionQuery
+): Promise<GitHubContributionBreakdown> {
+  const { user } = query;
+  const variables: Record<string, unknown> = {
+    username: user,
+    from: getDayStartIso(query.fromDate, query.timeZone),
+    to: getDayEndIso(query.toDate, query.timeZone),
+  };
+
+  const result = await client.query<GitHubContributionBreakdownResponse>(
+    contributionBreakdownQuery,
+    variables
+  );
+  const collection = requireUserData(result, user).user!.contributionsCollection;
+
+  const [pullRequests, reviews, issues] = await Promise.all([
+    fetchConnectionNodes(client, variables, "pullRequestContributions", collection.pullRequestContributions),
+    fetchConnectionNodes(client, variables, "pullRequestReviewContributions", collection.pullRequestReviewContributions),
+    fetchConnectionNodes(client, variables, "issueContributions", collection.issueContributions),
+  ]);
+
+  // Commits are not paginated: at most 100 repositories, 100 contributions each
+  const repositories = collection.commitContributionsByRepository;
+  const commitsTruncated = collection.totalRepositoriesWithContributedCommits > repositories.length
+    || repositories.some((repo) => repo.contributions.pageInfo.hasNextPage);
+  if (commitsTruncated) {
+    console.warn(`[github-service] commit contributions truncated for ${query.fromDate} to ${query.toDate}`);
+  }
+
+  const truncated = [
+    commitsTruncated ? "commits" : undefined,
+    pullRequests.truncated ? "pull requests" : undefined,
+    reviews.truncated ? "reviews" : undefined,
+    issues.truncated ? "issues" : undefined,
+  ].filter((kind) => kind !== undefined);
+
+  return {
+    calendarDays: collection.contributionCalendar.weeks.flatMap((week) => week.contributionDays),
+    commits: repositories.flatMap((repo) => repo.contributions.nodes),
+    pullRequests: pullRequests.nodes,
+    reviews: reviews.nodes,
+    issues: issues.nodes,
+    truncated,
+  };
+}
+
+/**
+ * Collects all nodes of a contribution connection, starting from its first page.
+ * `truncated` is set when MAX_PAGES cut the connection off.
+ */
+async function fetchConnectionNodes(
+  client: GitHubClient,
+  variables: Record<string, unknown>,
+  field: ContributionConnectionField,
+  firstPage: GitHubContributionConnection
+): Promise<{ nodes: GitHubContributionNode[]; truncated: boolean }> {
+  const nodes = [...firstPage.nodes];
+  let pageInfo = firstPage.pageInfo;
+  let pageCount = 1;
+
+  while (pageInfo.hasNextPage && pageCount < GITHUB_BREAKDOWN.MAX_PAGES) {
+    const result = await client.query<GitHubContributionPageResponse>(
+      contributionPageQuery(field),
+      { ...variables, after: pageInfo.endCursor }
+    );
+    const connection = requireUserData(result, String(variables.username)).user!.contributionsCollection[field];
+    if (!connection) break;
+
+    nodes.push(...connection.nodes);
+    pageInfo = connection.pageInfo;
+    pageCount++;
+  }
+
+  if (pageInfo.hasNextPage) {
+    console.warn(`[github-service] ${field} truncated after ${GITHUB_BREAKDOWN.MAX_PAGES} pages`);
+  }
+
+  return { nodes, truncated: pageInfo.hasNextPage };
+}
+
+/**
+ * Throws on GraphQL errors, missing data or an unknown user; returns the data otherwise.
+ */
+function requireUserData<T extends { user: unknown }>(result: GraphQlResponse<T>, user: string): T {
   if (result.errors && result.errors.length > 0) {
     const errorMessages = result.errors.map(e => e.message).join("; ");
     throw upstreamError(`GitHub API error: ${errorMessages}`, result.errors);
@@ -83,8 +273,56 @@ async function fetchContributionCalendar(
   }
 
   if (!result.data.user) {
-    throw upstreamError(`GitHub user not found: ${query.user}`);
+    throw upstreamError(`GitHub user not found: ${user}`);
   }
 
   return result.data;
 }
+
+/**
+ * Splits an inclusive YYYY-MM-DD range at calendar year boundaries.
+ * Example: 2023-06-01..2025-02-01 → 2023-06-01..2023-12-31, 2024-01-01..2024-12-31, 2025-01-01..2025-02-01
+ */
+function splitByYear(fromDate: string, toDate: string): Array<{ fromDate: string; toDate: string }> {
+  const years: Array<{ fromDate: string; toDate: string }> = [];
+
+  for (let year = Number(fromDate.slice(0, 4)); year <= Number(toDate.slice(0, 4)); year++) {
+    const yearStart = `${year}-01-01`;
+    const yearEnd = `${year}-12-31`;
+    years.push({
+      fromDate: fromDate > yearStart ? fromDate : yearStart,
+      toDate: toDate < yearEnd ? toDate : yearEnd,
+    });
+  }
+
+  return years;
+}
+
+/**
+ * Splits an inclusive YYYY-MM-DD range into consecutive windows of at most maxDays days.
+ */
+function splitDateRange(
+  fromDate: string,
+  toDate: string,
+  maxDays: number
+): Array<{ fromDate: string; toDate: string }> {
+  const windows: Array<{ fromDate: string; toDate: string }> = [];
+  const end = new Date(`${toDate}T00:00:00Z`);
+  const start = new Date(`${fromDate}T00:00:00Z`);
+
+  while (start <= end) {
+    const windowEnd = new Date(start);
+    windowEnd.setUTCDate(windowEnd.getUTCDate() + maxDays - 1);
+    const clampedEnd = windowEnd < end ? windowEnd : end;
+
+    windows.push({
+      fromDate: start.toISOString().slice(0, 10),
+      toDate: clampedEnd.toISOString().slice(0, 10),
+    });
+
+    start.setTime(clampedEnd.getTime());
+    start.setUTCDate(start.getUTCDate() + 1);
+  }
+
+  return windows;
+}
@@ -0,0 +1,15 @@
+// Registers the GitHub service as a contribution source.
+
+import type { ContributionSource } from "../contributionSource";
+import type { GitHubService } from "./githubService";
+
+export function createGitHubSource(service: GitHubService): ContributionSource {
+  return {
+    provider: "github",
+    displayName: "GitHub",
+    cacheKeyPrefix: "gh",
+    supportsBaseUrl: false,
+    resolveUser: (credentials) => service.fetchAuthenticatedUsername(credentials.token),
+    fetchContributionData: (query, credentials) => service.fetchContributionData(query, credentials.token),
+  };
+}
@@ -6,6 +6,8 @@
 
 import type { ContributionDay, ContributionHistoryPoint } from '../../domain/contributions';
 import { filterContributionEvents, getEventContributionWeight, type GitLabEvent } from './gitlabEventFilter';
+import { DEFAULT_WEIGHTING_PROFILE, type GitLabWeightingProfile } from './gitlabWeighting';
+import { toLocalDateIso } from '../../utils/timezone';
 
 // ============================================================================
 // Types
@@ -28,11 +30,17 @@ export type DailyContribution = {
  * Aggregates GitLab events into daily contribution counts.
  * 
  * @param events - Raw GitLab events (will be filtered for contributions)
+ * @param profile - Weighting profile deciding what each event counts for
+ * @param timeZone - IANA timezone whose calendar days events are bucketed into (UTC when omitted)
  * @returns Array of daily contributions sorted by date ascending
  */
-export function aggregateEventsByDay(events: GitLabEvent[]): DailyContribution[] {
+export function aggregateEventsByDay(
+  events: GitLabEvent[],
+  profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+  timeZone?: string,
+): DailyContribution[] {
   // Filter to only contribution events
-  const contributionEvents = filterContributionEvents(events);
+  const contributionEvents = filterContributionEvents(events, profile);
   console.log(`[gitlab-aggregator] Events after contribution filter: ${contributionEvents.length}/${events.length}`);
 
   // Log event type breakdown for debugging
@@ -42,8 +50,8 @@ export function aggregateEventsByDay(events: GitLabEvent[]): DailyContribution[]
   const dailyMap = new Map<string, number>();
 
   for (const event of contributionEvents) {
-    const date = extractDate(event.createdAt);
-    const weight = getEventContributionWeight(event);
+    const date = toLocalDateIso(event.createdAt, timeZone);
+    const weight = getEventContributionWeight(event, profile);
     dailyMap.set(date, (dailyMap.get(date) ?? 0) + weight);
   }
 
@@ -1,13 +1,17 @@
 // Low-level REST client for GitLab API.
 
-import { fetchWithTimeout } from "../../utils/network";
+import { unauthorized } from "../../utils/appError";
+import type { CircuitBreakers } from "../../utils/circuitBreaker";
+import { fetchWithRetry, isRejectedCredentials } from "../../utils/network";
 
 // LRZ GitLab instance base URL
-const DEFAULT_GITLAB_BASE_URL = "https://gitlab.lrz.de";
+export const DEFAULT_GITLAB_BASE_URL = "https://gitlab.lrz.de";
 
 export type GitLabClientConfig = {
   token?: string;
   baseUrl?: string;
+  /** Checked before and updated after every request (see fetchWithRetry) */
+  circuitBreakers?: CircuitBreakers;
 };
 
 export type GitLabPaginationInfo = {
@@ -30,16 +34,16 @@ export type GitLabClient = {
 
 /**
  * Creates a low-level GitLab REST client.
+ * Transient failures and short rate limits (RateLimit-* headers) are retried (see fetchWithRetry);
+ * longer rate limits throw a rateLimited AppError.
  * 
  * TODO: GitLab uses REST API while GitHub uses GraphQL - different pagination models
  * TODO: GitLab rate limits are typically more restrictive for unauthenticated requests
- * TODO: Add proper error handling for network failures
- * TODO: Add rate limit handling (check RateLimit-* headers)
  * TODO: Add request/response logging for debugging
  * TODO: Consider implementing automatic pagination handling
  */
 export function createGitLabClient(config: GitLabClientConfig = {}): GitLabClient {
-  const { token, baseUrl = DEFAULT_GITLAB_BASE_URL } = config;
+  const { token, circuitBreakers, baseUrl = DEFAULT_GITLAB_BASE_URL } = config;
 
   return {
     async get<T>(path: string, params?: Record<string, string | number>): Promise<GitLabResponse<T>> {
@@ -62,10 +66,10 @@ export function createGitLabClient(config: GitLabClientConfig = {}): GitLabClien
 
       console.log(`[gitlab-client] GET ${url.pathname}${url.search}`);
 
-      const response = await fetchWithTimeout(url.toString(), {
+      const response = await fetchWithRetry(url.toString(), {
         method: "GET",
         headers,
-      });
+      }, { circuitBreakers });
 
       console.log(`[gitlab-client] Response: ${response.status} ${response.statusText}`);
 
@@ -109,17 +113,18 @@ export function createGitLabClient(config: GitLabClientConfig = {}): GitLabClien
         headers["PRIVATE-TOKEN"] = token;
       }
 
-      const response = await fetchWithTimeout(url.toString(), {
+      const response = await fetchWithRetry(url.toString(), {
         method: "GET",
         headers,
-      });
+      }, { circuitBreakers });
 
       console.log(`[gitlab-client] Response: ${response.status} ${response.statusText}`);
 
       if (!response.ok) {
         const errorBody = await response.text();
         console.error(`[gitlab-client] Error response body: ${errorBody}`);
-        throw new Error(`GitLab authentication failed: ${response.status} ${response.statusText}`);
+        const message = `GitLab authentication failed: ${response.status} ${response.statusText}`;
+        throw isRejectedCredentials(response.status) ? unauthorized(message) : new Error(message);
       }
 
       const data = await response.json() as { username?: string };
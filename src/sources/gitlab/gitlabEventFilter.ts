@@ -2,6 +2,7 @@
  * GitLab Event Filtering
  * 
  * Filters and weights GitLab events for contribution counting.
+ * Weights come from a weighting profile (see gitlabWeighting).
  */
 
 import {
@@ -11,6 +12,11 @@ import {
   type GitLabResponseAction,
   type GitLabTargetType,
 } from './gitlabEventTypes';
+import {
+  DEFAULT_WEIGHTING_PROFILE,
+  getEventWeightCategory,
+  type GitLabWeightingProfile,
+} from './gitlabWeighting';
 
 // ============================================================================
 // Event Types
@@ -38,8 +44,12 @@ export type GitLabEvent = {
 
 /**
  * Determines if a GitLab event should count as a contribution.
+ * Events whose category has weight 0 in the profile are excluded.
  */
-export function isContributionEvent(event: GitLabEvent): boolean {
+export function isContributionEvent(
+  event: GitLabEvent,
+  profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+): boolean {
   // Check if action is a contribution action
   if (!isContributionAction(event.actionName)) {
     return false;
@@ -50,14 +60,19 @@ export function isContributionEvent(event: GitLabEvent): boolean {
     return false;
   }
 
-  return true;
+  // Exclude categories weighted out by the profile
+  const category = getEventWeightCategory(event.actionName, event.targetType);
+  return category !== undefined && profile[category] > 0;
 }
 
 /**
  * Filters an array of GitLab events to only contribution-relevant events.
  */
-export function filterContributionEvents(events: GitLabEvent[]): GitLabEvent[] {
-  return events.filter(isContributionEvent);
+export function filterContributionEvents(
+  events: GitLabEvent[],
+  profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+): GitLabEvent[] {
+  return events.filter((event) => isContributionEvent(event, profile));
 }
 
 // ============================================================================
@@ -68,16 +83,22 @@ export function filterContributionEvents(events: GitLabEvent[]): GitLabEvent[] {
  * Gets the contribution weight for an event.
  * 
  * Push events can contain multiple commits - we count each commit
- * to match GitHub's contribution graph behavior.
+ * to match GitHub's contribution graph behavior, times the push weight.
  * 
  * @returns Number of contributions this event represents
  */
-export function getEventContributionWeight(event: GitLabEvent): number {
+export function getEventContributionWeight(
+  event: GitLabEvent,
+  profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+): number {
+  const category = getEventWeightCategory(event.actionName, event.targetType);
+  const weight = category ? profile[category] : 0;
+
   // Push events may contain multiple commits
   if (isPushAction(event.actionName) && event.pushData?.commitCount) {
-    return event.pushData.commitCount;
+    return event.pushData.commitCount * weight;
   }
 
-  // All other contribution events count as 1
-  return 1;
+  // All other contribution events count once, times their category weight
+  return weight;
 }
@@ -10,6 +10,8 @@
  * This file maps between them and defines which events count as contributions.
  */
 
+import type { GitLabWeightCategory } from './gitlabWeighting';
+
 // ============================================================================
 // API Query Actions
 // ============================================================================
@@ -101,6 +103,23 @@ export const CONTRIBUTION_ACTION_NAMES = new Set<GitLabResponseAction>([
   'wiki_page',
 ]);
 
+/**
+ * Weight category of each contribution action name (see gitlabWeighting).
+ */
+export const CONTRIBUTION_ACTION_CATEGORIES = new Map<GitLabResponseAction, GitLabWeightCategory>([
+  ['pushed', 'pushed'],
+  ['pushed to', 'pushed'],
+  ['pushed new', 'pushed'],
+  ['commented', 'commented'],
+  ['commented on', 'commented'],
+  ['created', 'created'],
+  ['opened', 'created'],
+  ['merged', 'merged'],
+  ['accepted', 'merged'],
+  ['approved', 'approved'],
+  ['wiki_page', 'wiki_page'],
+]);
+
 /**
  * Push action names that may contain multiple commits.
  */
@@ -146,6 +165,11 @@ export type GitLabTargetType =
   | null
   | string;
 
+/**
+ * Target type of wiki page events.
+ */
+export const WIKI_TARGET_TYPE: GitLabTargetType = 'WikiPage::Meta';
+
 /**
  * Target types to exclude from contribution counts.
  */
@@ -170,8 +194,16 @@ export function isExcludedTargetType(targetType: GitLabTargetType): boolean {
 export const GITLAB_PAGINATION = {
   /** Maximum items per page (GitLab's limit is 100) */
   PER_PAGE: 100,
-  /** Maximum pages to fetch per action type (safety limit) */
+  /** Maximum pages to fetch per action type (safety limit); total: PER_PAGE * MAX_PAGES * ACTIONS = 25,000 events */
   MAX_PAGES: 50,
-  /** Total event limit: PER_PAGE * MAX_PAGES * ACTIONS = 25,000 events */
+  /** Page requests in flight at once per fetch, across all action types */
+  CONCURRENCY: 4,
 } as const;
 
+/**
+ * Limits for the commit/merge request backfill of ranges older than events retention.
+ */
+export const GITLAB_BACKFILL = {
+  /** Maximum projects to scan for authored commits (safety limit) */
+  MAX_PROJECTS: 100,
+} as const;
@@ -7,18 +7,27 @@
  * - Fetches events by action type separately (GitLab API quirk)
  * - Uses date range parameters (after/before) for efficient querying
  * - Deduplicates events by ID when combining action type results
+ * - Days older than the events retention window are backfilled from
+ *   authored commits and merge requests instead (see Backfill section)
+ * - Events are weighted by a weighting profile (see gitlabWeighting)
+ * - Listings cut off by the safety limits mark the data as incomplete
  */
 
 import type { ContributionQuery, ContributionData, ContributionHistory } from '../../domain/contributions';
 import { upstreamError } from '../../utils/appError';
-import { createGitLabClient, type GitLabClient } from './gitlabClient';
-import { GITLAB_API_ACTIONS, GITLAB_PAGINATION } from './gitlabEventTypes';
+import type { CircuitBreakers } from '../../utils/circuitBreaker';
+import { createConcurrencyLimiter, type ConcurrencyLimiter } from '../../utils/concurrency';
+import { getDayEndIso, getDayStartIso, toLocalDateIso } from '../../utils/timezone';
+import { createGitLabClient, type GitLabClient, type GitLabResponse } from './gitlabClient';
+import { GITLAB_API_ACTIONS, GITLAB_BACKFILL, GITLAB_PAGINATION } from './gitlabEventTypes';
 import type { GitLabEvent } from './gitlabEventFilter';
+import { DEFAULT_WEIGHTING_PROFILE, type GitLabWeightingProfile } from './gitlabWeighting';
 import {
   aggregateEventsByDay,
   mapToContributionDays,
   mapToHistoryPoints,
   filterByDateRange,
+  type DailyContribution,
 } from './gitlabAggregator';
 
 // ============================================================================
@@ -28,14 +37,63 @@ import {
 export type GitLabServiceConfig = {
   token?: string;
   baseUrl?: string;
+  /**
+   * How many days back the Events API returns data (GitLab prunes events after 3 years).
+   * Older days are backfilled from commits and merge requests.
+   */
+  eventsRetentionDays?: number;
+  /** Max GitLab requests in flight while fetching events (defaults to 4) */
+  concurrency?: number;
+  /** Per-host circuit breakers shared by every client this service creates */
+  circuitBreakers?: CircuitBreakers;
 };
 
+// GitLab removes events older than 3 years
+const DEFAULT_EVENTS_RETENTION_DAYS = 3 * 365;
+
 export type GitLabService = {
-  fetchContributionData(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionData>;
-  fetchContributionHistory(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionHistory>;
+  fetchContributionData(
+    query: ContributionQuery,
+    token?: string,
+    baseUrl?: string,
+    profile?: GitLabWeightingProfile,
+  ): Promise<ContributionData>;
+  fetchContributionHistory(
+    query: ContributionQuery,
+    token?: string,
+    baseUrl?: string,
+    profile?: GitLabWeightingProfile,
+  ): Promise<ContributionHistory>;
   fetchAuthenticatedUsername(token: string, baseUrl?: string): Promise<string>;
 };
 
+/**
+ * GitLab /user response (only the fields used for backfill).
+ */
+type GitLabApiUser = {
+  id: number;
+  username: string;
+  email?: string;
+  public_email?: string;
+  commit_email?: string;
+};
+
+type GitLabApiProject = {
+  id: number;
+  path_with_namespace: string;
+};
+
+type GitLabApiCommit = {
+  id: string;
+  author_email: string;
+  authored_date: string; // ISO 8601 datetime
+};
+
+type GitLabApiMergeRequest = {
+  id: number;
+  created_at: string; // ISO 8601 datetime
+};
+
 /**
  * GitLab Events API response event type (snake_case from API).
  */
@@ -52,6 +110,22 @@ type GitLabApiEvent = {
   };
 };
 
+/**
+ * Items of a listing; `truncated` is set when a safety limit cut it off.
+ */
+type PaginatedResult<T> = {
+  items: T[];
+  truncated: boolean;
+};
+
+/**
+ * Daily contributions with the kinds of data the safety limits cut off (e.g. "events").
+ */
+type FetchedContributions = {
+  daily: DailyContribution[];
+  truncated: string[];
+};
+
 // ============================================================================
 // Service Factory
 // ============================================================================
@@ -60,65 +134,139 @@ type GitLabApiEvent = {
  * Creates a GitLab service for fetching contribution data.
  */
 export function createGitLabService(config: GitLabServiceConfig = {}): GitLabService {
+  const { circuitBreakers } = config;
   // Create default client if config has token or baseUrl
   const defaultClient = createGitLabClient({
     token: config.token,
     baseUrl: config.baseUrl,
+    circuitBreakers,
   });
 
-  return {
-    async fetchContributionData(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionData> {
-      const { fromDate, toDate } = query;
-      const resolvedBaseUrl = baseUrl ?? config.baseUrl;
-
-      // Use per-request token/baseUrl if provided, otherwise use default client
-      const client = token !== undefined || baseUrl !== undefined
-        ? createGitLabClient({ token: token ?? config.token, baseUrl: resolvedBaseUrl })
-        : defaultClient;
+  const retentionDays = config.eventsRetentionDays ?? DEFAULT_EVENTS_RETENTION_DAYS;
+  const concurrency = config.concurrency ?? GITLAB_PAGINATION.CONCURRENCY;
 
-      const events = await fetchUserEvents(client, query.user, fromDate, toDate);
-      console.log(`[gitlab-service] Total events fetched: ${events.length}`);
-
-      const aggregated = aggregateEventsByDay(events);
-      console.log(`[gitlab-service] Days with contributions (before date filter): ${aggregated.length}`);
+  function resolveClient(token?: string, baseUrl?: string): GitLabClient {
+    // Use per-request token/baseUrl if provided, otherwise use default client
+    return token !== undefined || baseUrl !== undefined
+      ? createGitLabClient({ token: token ?? config.token, baseUrl: baseUrl ?? config.baseUrl, circuitBreakers })
+      : defaultClient;
+  }
 
-      const filtered = filterByDateRange(aggregated, fromDate, toDate);
-      console.log(`[gitlab-service] Days with contributions (after date filter): ${filtered.length}`);
+  return {
+    async fetchContributionData(
+      query: ContributionQuery,
+      token?: string,
+      baseUrl?: string,
+      profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+    ): Promise<ContributionData> {
+      const client = resolveClient(token, baseUrl);
+      const limit = createConcurrencyLimiter(concurrency);
+      const { daily, truncated } = await fetchDailyContributions(client, query, retentionDays, profile, limit);
 
       return {
         provider: 'gitlab',
         user: query.user,
-        days: mapToContributionDays(filtered),
+        days: mapToContributionDays(daily),
+        incomplete: truncated.length > 0
+          ? `GitLab ${truncated.join(' and ')} were cut off by safety limits`
+          : undefined,
       };
     },
 
-    async fetchContributionHistory(query: ContributionQuery, token?: string, baseUrl?: string): Promise<ContributionHistory> {
-      const { fromDate, toDate } = query;
-      const resolvedBaseUrl = baseUrl ?? config.baseUrl;
-
-      const client = token !== undefined || baseUrl !== undefined
-        ? createGitLabClient({ token: token ?? config.token, baseUrl: resolvedBaseUrl })
-        : defaultClient;
-
-      const events = await fetchUserEvents(client, query.user, fromDate, toDate);
-      const aggregated = aggregateEventsByDay(events);
-      const filtered = filterByDateRange(aggregated, fromDate, toDate);
+    async fetchContributionHistory(
+      query: ContributionQuery,
+      token?: string,
+      baseUrl?: string,
+      profile: GitLabWeightingProfile = DEFAULT_WEIGHTING_PROFILE,
+    ): Promise<ContributionHistory> {
+      const client = resolveClient(token, baseUrl);
+      const limit = createConcurrencyLimiter(concurrency);
+      const { daily } = await fetchDailyContributions(client, query, retentionDays, profile, limit);
 
       return {
         provider: 'gitlab',
         user: query.user,
-        points: mapToHistoryPoints(filtered),
+        points: mapToHistoryPoints(daily),
       };
     },
 
     async fetchAuthenticatedUsername(token: string, baseUrl?: string): Promise<string> {
       const resolvedBaseUrl = baseUrl ?? config.baseUrl;
-      const client = createGitLabClient({ token, baseUrl: resolvedBaseUrl });
+      const client = createGitLabClient({ token, baseUrl: resolvedBaseUrl, circuitBreakers });
       return client.getAuthenticatedUser();
     },
   };
 }
 
+// ============================================================================
+// Range Splitting
+// ============================================================================
+
+/**
+ * Fetches daily contributions for a query.
+ *
+ * The range is split at the events retention cutoff: days inside the window
+ * come from the Events API, older days from the commit/MR backfill.
+ * The two parts never overlap, so nothing is counted twice.
+ * Listings cut off by a safety limit are reported in `truncated`.
+ */
+async function fetchDailyContributions(
+  client: GitLabClient,
+  query: ContributionQuery,
+  retentionDays: number,
+  profile: GitLabWeightingProfile,
+  limit: ConcurrencyLimiter,
+): Promise<FetchedContributions> {
+  const { fromDate, toDate, timeZone } = query;
+  const cutoffDate = getRetentionCutoffDate(retentionDays);
+  const daily: DailyContribution[] = [];
+  const truncated: string[] = [];
+
+  // Events window: [max(fromDate, cutoff), toDate]
+  if (toDate >= cutoffDate) {
+    const eventsFrom = fromDate > cutoffDate ? fromDate : cutoffDate;
+    const { items: events, truncated: eventsTruncated } = await fetchUserEvents(client, query.user, eventsFrom, toDate, timeZone, limit);
+    console.log(`[gitlab-service] Total events fetched: ${events.length}`);
+    if (eventsTruncated) truncated.push('events');
+
+    // With a timezone, events are requested with a day of padding on each side (see buildDateParams)
+    const aggregated = aggregateEventsByDay(events, profile, timeZone);
+    console.log(`[gitlab-service] Days with contributions (before date filter): ${aggregated.length}`);
+
+    const filtered = filterByDateRange(aggregated, eventsFrom, toDate);
+    console.log(`[gitlab-service] Days with contributions (after date filter): ${filtered.length}`);
+    daily.push(...filtered);
+  }
+
+  // Backfill window: [fromDate, min(toDate, cutoff - 1 day)]
+  if (fromDate < cutoffDate) {
+    const dayBeforeCutoff = shiftDateIso(cutoffDate, -1);
+    const backfillTo = toDate < dayBeforeCutoff ? toDate : dayBeforeCutoff;
+    console.log(`[gitlab-service] Range starts before events retention (${cutoffDate}), backfilling ${fromDate} to ${backfillTo}`);
+    const backfill = await fetchBackfillContributions(client, fromDate, backfillTo, profile, timeZone);
+    daily.push(...backfill.daily);
+    truncated.push(...backfill.truncated);
+  }
+
+  return { daily: daily.sort((a, b) => a.date.localeCompare(b.date)), truncated };
+}
+
+/**
+ * Returns the oldest date (YYYY-MM-DD) the Events API still has data for.
+ */
+function getRetentionCutoffDate(retentionDays: number): string {
+  return shiftDateIso(new Date().toISOString().split('T')[0], -retentionDays);
+}
+
+/**
+ * Adds (or subtracts) days to a YYYY-MM-DD date.
+ */
+function shiftDateIso(dateIso: string, days: number): string {
+  const date = new Date(`${dateIso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
 // ============================================================================
 // Event Fetching
 // ============================================================================
@@ -129,25 +277,32 @@ export function createGitLabService(config: GitLabServiceConfig = {}): GitLabSer
  * Implementation notes:
  * - GitLab's API doesn't reliably return all event types in a single query
  * - We fetch each action type separately and deduplicate by event ID
- * - Date parameters are exclusive, so we adjust by ±1 day for inclusive range
+ * - Action types are fetched concurrently, with every page request going through `limit`
+ * - Date parameters are exclusive UTC dates, see buildDateParams
  */
 async function fetchUserEvents(
   client: GitLabClient,
   username: string,
-  fromDateIso?: string,
-  toDateIso?: string,
-): Promise<GitLabEvent[]> {
-  const dateParams = buildDateParams(fromDateIso, toDateIso);
+  fromDateIso: string | undefined,
+  toDateIso: string | undefined,
+  timeZone: string | undefined,
+  limit: ConcurrencyLimiter,
+): Promise<PaginatedResult<GitLabEvent>> {
+  const dateParams = buildDateParams(fromDateIso, toDateIso, timeZone);
   
   console.log(`[gitlab-service] Fetching events for date range: ${dateParams.after ?? 'none'} to ${dateParams.before ?? 'none'}`);
 
-  // Fetch each action type separately and deduplicate
+  const eventsByAction = await Promise.all(
+    GITLAB_API_ACTIONS.map((action) => fetchEventsByAction(client, username, action, dateParams, limit)),
+  );
+
+  // Deduplicate in GITLAB_API_ACTIONS order, not completion order, so the kept copy of an event is deterministic
   const allEvents: GitLabEvent[] = [];
   const seenIds = new Set<number>();
 
-  for (const action of GITLAB_API_ACTIONS) {
-    const events = await fetchEventsByAction(client, username, action, dateParams);
-    
+  for (const [index, action] of GITLAB_API_ACTIONS.entries()) {
+    const events = eventsByAction[index].items;
+
     for (const event of events) {
       if (!seenIds.has(event.id)) {
         seenIds.add(event.id);
@@ -158,26 +313,26 @@ async function fetchUserEvents(
     console.log(`[gitlab-service] Action '${action}': ${events.length} events (unique total: ${allEvents.length})`);
   }
 
-  return allEvents;
+  return { items: allEvents, truncated: eventsByAction.some((result) => result.truncated) };
 }
 
 /**
  * Builds date parameters for GitLab API.
  * GitLab uses exclusive bounds, so we adjust by ±1 day for inclusive range.
+ * The bounds are UTC dates, so with a timezone they are widened by one more day:
+ * local days at the range edges can start or end on the neighbouring UTC date.
+ * The extra days are trimmed later by the date filter.
  */
-function buildDateParams(fromDateIso?: string, toDateIso?: string): Record<string, string> {
+function buildDateParams(fromDateIso?: string, toDateIso?: string, timeZone?: string): Record<string, string> {
   const params: Record<string, string> = {};
+  const padding = timeZone ? 2 : 1;
 
   if (fromDateIso) {
-    const afterDate = new Date(fromDateIso);
-    afterDate.setDate(afterDate.getDate() - 1);
-    params.after = afterDate.toISOString().split('T')[0];
+    params.after = shiftDateIso(fromDateIso, -padding);
   }
 
   if (toDateIso) {
-    const beforeDate = new Date(toDateIso);
-    beforeDate.setDate(beforeDate.getDate() + 1);
-    params.before = beforeDate.toISOString().split('T')[0];
+    params.before = shiftDateIso(toDateIso, padding);
   }
 
   return params;
@@ -185,42 +340,252 @@ function buildDateParams(fromDateIso?: string, toDateIso?: string): Record<strin
 
 /**
  * Fetches events for a specific action type with pagination.
+ *
+ * When the first page reports the total page count (X-Total-Pages), the remaining
+ * pages are requested concurrently; GitLab omits it for very large listings, which
+ * are then paged sequentially. Events keep page order either way.
  */
 async function fetchEventsByAction(
   client: GitLabClient,
   username: string,
   action: string,
   dateParams: Record<string, string>,
-): Promise<GitLabEvent[]> {
-  const events: GitLabEvent[] = [];
-  let page = 1;
+  limit: ConcurrencyLimiter,
+): Promise<PaginatedResult<GitLabEvent>> {
+  const fetchPage = (page: number) => limit(() => fetchEventsPage(client, username, action, dateParams, page));
+
+  const first = await fetchPage(1);
+  const events = first.data.map(mapApiEvent);
+
+  // Stop if no more pages
+  if (first.data.length < GITLAB_PAGINATION.PER_PAGE || !first.pagination.nextPage) {
+    return { items: events, truncated: false };
+  }
+
+  const { totalPages } = first.pagination;
+  if (totalPages !== undefined) {
+    const lastPage = Math.min(totalPages, GITLAB_PAGINATION.MAX_PAGES);
+    const pages = Array.from({ length: Math.max(0, lastPage - 1) }, (_, index) => index + 2);
+    console.log(`[gitlab-service] Action '${action}': prefetching pages 2-${lastPage} of ${totalPages}`);
+
+    const results = await Promise.all(pages.map(fetchPage));
+    if (totalPages > lastPage) {
+      console.warn(`[gitlab-service] Action '${action}': truncated after ${GITLAB_PAGINATION.MAX_PAGES} pages`);
+    }
+    return {
+      items: events.concat(...results.map((result) => result.data.map(mapApiEvent))),
+      truncated: totalPages > lastPage,
+    };
+  }
+
+  let page = 2;
 
   while (page <= GITLAB_PAGINATION.MAX_PAGES) {
-    const result = await client.get<GitLabApiEvent[]>(
-      `/users/${encodeURIComponent(username)}/events`,
+    const result = await fetchPage(page);
+    events.push(...result.data.map(mapApiEvent));
+
+    // Stop if no more pages
+    if (result.data.length < GITLAB_PAGINATION.PER_PAGE || !result.pagination.nextPage) {
+      return { items: events, truncated: false };
+    }
+
+    page++;
+  }
+
+  console.warn(`[gitlab-service] Action '${action}': truncated after ${GITLAB_PAGINATION.MAX_PAGES} pages`);
+  return { items: events, truncated: true };
+}
+
+/**
+ * Fetches one page of a user's events for an action type.
+ */
+async function fetchEventsPage(
+  client: GitLabClient,
+  username: string,
+  action: string,
+  dateParams: Record<string, string>,
+  page: number,
+): Promise<GitLabResponse<GitLabApiEvent[]>> {
+  const result = await client.get<GitLabApiEvent[]>(
+    `/users/${encodeURIComponent(username)}/events`,
+    {
+      ...dateParams,
+      action,
+      per_page: GITLAB_PAGINATION.PER_PAGE,
+      page,
+    },
+  );
+
+  if (!Array.isArray(result.data)) {
+    throw upstreamError(`GitLab API returned unexpected data format for user: ${username}`);
+  }
+
+  return result;
+}
+
+// ============================================================================
+// Backfill (commits and merge requests)
+// ============================================================================
+
+/**
+ * Counts authored commits and opened merge requests per day.
+ *
+ * Used for ranges the Events API no longer covers. Only works for the token
+ * owner: commits are matched by the owner's emails, which GitLab only exposes
+ * for the authenticated user.
+ *
+ * Commits are weighted like pushed commits and merge requests like created
+ * events; categories weighted 0 are not fetched at all.
+ * Listings cut off by a safety limit are reported in `truncated`.
+ */
+async function fetchBackfillContributions(
+  client: GitLabClient,
+  fromDateIso: string,
+  toDateIso: string,
+  profile: GitLabWeightingProfile,
+  timeZone?: string,
+): Promise<FetchedContributions> {
+  const { data: user } = await client.get<GitLabApiUser>('/user');
+  const weighted: Array<{ timestamp: string; weight: number }> = [];
+  const truncated: string[] = [];
+
+  if (profile.pushed > 0) {
+    const emails = await fetchUserEmails(client, user);
+    console.log(`[gitlab-service] Backfill: matching commits by ${emails.size} email(s)`);
+
+    const commits = await fetchAuthoredCommits(client, emails, fromDateIso, toDateIso, timeZone);
+    console.log(`[gitlab-service] Backfill: ${commits.items.length} authored commits`);
+    if (commits.truncated) truncated.push('commits');
+    weighted.push(...commits.items.map((commit) => ({ timestamp: commit.authored_date, weight: profile.pushed })));
+  }
+
+  if (profile.created > 0) {
+    const mergeRequests = await fetchAllPages<GitLabApiMergeRequest>(client, '/merge_requests', {
+      author_id: user.id,
+      scope: 'all',
+      state: 'all',
+      created_after: getDayStartIso(fromDateIso, timeZone),
+      created_before: getDayEndIso(toDateIso, timeZone),
+    });
+    console.log(`[gitlab-service] Backfill: ${mergeRequests.items.length} merge requests`);
+    if (mergeRequests.truncated) truncated.push('merge requests');
+    weighted.push(...mergeRequests.items.map((mr) => ({ timestamp: mr.created_at, weight: profile.created })));
+  }
+
+  const dailyMap = new Map<string, number>();
+  for (const { timestamp, weight } of weighted) {
+    const date = toLocalDateIso(timestamp, timeZone);
+    if (date < fromDateIso || date > toDateIso) continue;
+    dailyMap.set(date, (dailyMap.get(date) ?? 0) + weight);
+  }
+
+  const daily = Array.from(dailyMap.entries())
+    .map(([date, count]) => ({ date, count, source: 'gitlab' as const }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  return { daily, truncated };
+}
+
+/**
+ * Collects all emails of the authenticated user (primary, commit, public and secondary).
+ */
+async function fetchUserEmails(client: GitLabClient, user: GitLabApiUser): Promise<Set<string>> {
+  const emails = new Set<string>();
+
+  for (const email of [user.email, user.commit_email, user.public_email]) {
+    if (email) emails.add(email.toLowerCase());
+  }
+
+  const secondary = await fetchAllPages<{ email: string }>(client, '/user/emails', {});
+  for (const entry of secondary.items) {
+    emails.add(entry.email.toLowerCase());
+  }
+
+  return emails;
+}
+
+/**
+ * Fetches commits authored by one of the given emails across the user's projects.
+ * Only projects with activity after the range start are scanned.
+ */
+async function fetchAuthoredCommits(
+  client: GitLabClient,
+  emails: Set<string>,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string,
+): Promise<PaginatedResult<GitLabApiCommit>> {
+  const projects = await fetchAllPages<GitLabApiProject>(client, '/projects', {
+    membership: 'true',
+    simple: 'true',
+    last_activity_after: getDayStartIso(fromDateIso, timeZone),
+  });
+
+  const scanned = projects.items.slice(0, GITLAB_BACKFILL.MAX_PROJECTS);
+  console.log(`[gitlab-service] Backfill: scanning ${scanned.length}/${projects.items.length} projects`);
+
+  const commits: GitLabApiCommit[] = [];
+  const seenIds = new Set<string>();
+  let truncated = projects.truncated || projects.items.length > scanned.length;
+
+  for (const project of scanned) {
+    const projectCommits = await fetchAllPages<GitLabApiCommit>(
+      client,
+      `/projects/${project.id}/repository/commits`,
       {
-        ...dateParams,
-        action,
-        per_page: GITLAB_PAGINATION.PER_PAGE,
-        page,
+        all: 'true',
+        since: getDayStartIso(fromDateIso, timeZone),
+        until: getDayEndIso(toDateIso, timeZone),
       },
     );
 
+    truncated ||= projectCommits.truncated;
+
+    // Forks share commits, count each commit once
+    for (const commit of projectCommits.items) {
+      if (seenIds.has(commit.id) || !emails.has(commit.author_email.toLowerCase())) continue;
+      seenIds.add(commit.id);
+      commits.push(commit);
+    }
+  }
+
+  return { items: commits, truncated };
+}
+
+/**
+ * Fetches all pages of a GitLab listing endpoint (up to MAX_PAGES).
+ */
+async function fetchAllPages<T>(
+  client: GitLabClient,
+  path: string,
+  params: Record<string, string | number>,
+): Promise<PaginatedResult<T>> {
+  const items: T[] = [];
+  let page = 1;
+
+  while (page <= GITLAB_PAGINATION.MAX_PAGES) {
+    const result = await client.get<T[]>(path, {
+      ...params,
+      per_page: GITLAB_PAGINATION.PER_PAGE,
+      page,
+    });
+
     if (!Array.isArray(result.data)) {
-      throw upstreamError(`GitLab API returned unexpected data format for user: ${username}`);
+      throw upstreamError(`GitLab API returned unexpected data format for ${path}`);
     }
 
-    events.push(...result.data.map(mapApiEvent));
+    items.push(...result.data);
 
     // Stop if no more pages
     if (result.data.length < GITLAB_PAGINATION.PER_PAGE || !result.pagination.nextPage) {
-      break;
+      return { items, truncated: false };
     }
 
     page++;
   }
 
-  return events;
+  console.warn(`[gitlab-service] ${path} truncated after ${GITLAB_PAGINATION.MAX_PAGES} pages`);
+  return { items, truncated: true };
 }
 
 /**
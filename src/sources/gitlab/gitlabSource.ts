@@ -0,0 +1,26 @@
+// Registers the GitLab service as a contribution source.
+
+import type { ContributionSource } from "../contributionSource";
+import type { GitLabService } from "./gitlabService";
+import { PROFILE_PARAM, WEIGHTS_PARAM, resolveWeightingProfile } from "./gitlabWeighting";
+
+export function createGitLabSource(service: GitLabService): ContributionSource {
+  return {
+    provider: "gitlab",
+    displayName: "GitLab",
+    cacheKeyPrefix: "gl",
+    supportsBaseUrl: true,
+    optionParams: [PROFILE_PARAM, WEIGHTS_PARAM],
+    validateOptions: (options) => {
+      resolveWeightingProfile(options);
+    },
+    resolveUser: (credentials) => service.fetchAuthenticatedUsername(credentials.token, credentials.baseUrl),
+    fetchContributionData: (query, credentials) =>
+      service.fetchContributionData(
+        query,
+        credentials.token,
+        credentials.baseUrl,
+        resolveWeightingProfile(credentials.options),
+      ),
+  };
+}
@@ -0,0 +1,130 @@
+/**
+ * GitLab Event Weighting
+ *
+ * Weighting profiles decide how much each kind of GitLab event counts.
+ * A weight of 0 excludes the event entirely.
+ *
+ * Profiles come from the query string:
+ * - gitlabprofile=<preset>                 → one of WEIGHTING_PRESETS
+ * - gitlabweights=approved:3,wiki_page:0   → per-request overrides on top of the preset
+ */
+
+import { badRequest } from '../../utils/appError';
+import {
+  CONTRIBUTION_ACTION_CATEGORIES,
+  WIKI_TARGET_TYPE,
+  type GitLabResponseAction,
+  type GitLabTargetType,
+} from './gitlabEventTypes';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Event categories that can be weighted.
+ * Named after the GitLab Events API action parameters.
+ */
+export const WEIGHT_CATEGORIES = ['pushed', 'commented', 'created', 'merged', 'approved', 'wiki_page'] as const;
+
+export type GitLabWeightCategory = typeof WEIGHT_CATEGORIES[number];
+
+/**
+ * Weight per event category. Push weights apply per commit.
+ */
+export type GitLabWeightingProfile = Record<GitLabWeightCategory, number>;
+
+// ============================================================================
+// Presets
+// ============================================================================
+
+/**
+ * Built-in weighting presets.
+ *
+ * - default: every contribution event counts once (pushes per commit)
+ * - github-compatible: what GitHub's graph counts (commits, opened issues/MRs, reviews)
+ * - commits-only: pushed commits only
+ * - review-heavy: emphasizes approvals and merges over comments
+ */
+export const WEIGHTING_PRESETS = {
+  'default': { pushed: 1, commented: 1, created: 1, merged: 1, approved: 1, wiki_page: 1 },
+  'github-compatible': { pushed: 1, commented: 0, created: 1, merged: 0, approved: 1, wiki_page: 0 },
+  'commits-only': { pushed: 1, commented: 0, created: 0, merged: 0, approved: 0, wiki_page: 0 },
+  'review-heavy': { pushed: 1, commented: 1, created: 1, merged: 2, approved: 3, wiki_page: 0 },
+} as const satisfies Record<string, GitLabWeightingProfile>;
+
+export type GitLabWeightingPreset = keyof typeof WEIGHTING_PRESETS;
+
+export const DEFAULT_WEIGHTING_PROFILE: GitLabWeightingProfile = WEIGHTING_PRESETS.default;
+
+/** Query parameter selecting a preset */
+export const PROFILE_PARAM = 'gitlabprofile';
+
+/** Query parameter with per-category overrides */
+export const WEIGHTS_PARAM = 'gitlabweights';
+
+// Upper bound for a single weight, keeps counts in a sensible range
+const MAX_WEIGHT = 100;
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolves the weighting profile from source options.
+ * Throws a 400 for unknown presets, unknown categories or invalid weights.
+ */
+export function resolveWeightingProfile(options?: Record<string, string>): GitLabWeightingProfile {
+  const presetName = options?.[PROFILE_PARAM]?.toLowerCase() ?? 'default';
+  if (!isWeightingPreset(presetName)) {
+    throw badRequest(
+      `Invalid GitLab profile "${presetName}". Valid options: ${Object.keys(WEIGHTING_PRESETS).join(', ')}`
+    );
+  }
+
+  const profile: GitLabWeightingProfile = { ...WEIGHTING_PRESETS[presetName] };
+  const overrides = options?.[WEIGHTS_PARAM];
+  if (!overrides) return profile;
+
+  for (const entry of overrides.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const [rawCategory, rawWeight] = entry.split(':').map((part) => part.trim());
+    const category = rawCategory.toLowerCase();
+
+    if (!isWeightCategory(category)) {
+      throw badRequest(
+        `Invalid GitLab weight category "${rawCategory}". Valid options: ${WEIGHT_CATEGORIES.join(', ')}`
+      );
+    }
+
+    const weight = Number(rawWeight);
+    if (!rawWeight || !Number.isInteger(weight) || weight < 0 || weight > MAX_WEIGHT) {
+      throw badRequest(
+        `Invalid GitLab weight "${entry}". Use category:weight with a whole number from 0 to ${MAX_WEIGHT}.`
+      );
+    }
+
+    profile[category] = weight;
+  }
+
+  return profile;
+}
+
+/**
+ * Returns the weight category of an event, or undefined if it is not a contribution.
+ * Wiki edits arrive as regular actions (e.g. 'created') on WikiPage::Meta, so the target type decides.
+ */
+export function getEventWeightCategory(
+  actionName: GitLabResponseAction,
+  targetType: GitLabTargetType,
+): GitLabWeightCategory | undefined {
+  if (targetType === WIKI_TARGET_TYPE) return 'wiki_page';
+  return CONTRIBUTION_ACTION_CATEGORIES.get(actionName);
+}
+
+function isWeightingPreset(name: string): name is GitLabWeightingPreset {
+  return Object.prototype.hasOwnProperty.call(WEIGHTING_PRESETS, name);
+}
+
+function isWeightCategory(name: string): name is GitLabWeightCategory {
+  return (WEIGHT_CATEGORIES as readonly string[]).includes(name);
+}
@@ -0,0 +1,40 @@
+// Exposes uploaded contribution data (POST /import) as a contribution source.
+
+import type { ContributionSource } from "../contributionSource";
+import type { ImportService } from "../../services/importService";
+import { notFound } from "../../utils/appError";
+
+/**
+ * The credential is the import ID (`importid`). Imported data is already stored,
+ * so it is not cached again.
+ */
+export function createImportSource(service: ImportService): ContributionSource {
+  return {
+    provider: "import",
+    displayName: "Import",
+    cacheKeyPrefix: "im",
+    supportsBaseUrl: false,
+    credentialParam: "importid",
+    cacheable: false,
+    async resolveUser(credentials) {
+      if (!service.getImport(credentials.token)) {
+        throw notFound(`Import "${credentials.token}" not found or expired`);
+      }
+      return credentials.token;
+    },
+    async fetchContributionData(query) {
+      const contributionImport = service.getImport(query.user);
+      if (!contributionImport) {
+        throw notFound(`Import "${query.user}" not found or expired`);
+      }
+
+      return {
+        provider: "import",
+        user: query.user,
+        days: contributionImport.days.filter(
+          (day) => day.dateIso >= query.fromDate && day.dateIso <= query.toDate
+        ),
+      };
+    },
+  };
+}
@@ -0,0 +1,73 @@
+// Low-level git CLI wrapper for reading commit history from repositories on disk.
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// git log can be large for busy repositories
+const GIT_LOG_MAX_BUFFER = 64 * 1024 * 1024;
+const GIT_LOG_TIMEOUT_MS = 30000;
+
+export type LocalGitCommit = {
+  hash: string;
+  authorDate: string; // ISO 8601 datetime with the author's UTC offset
+  authorEmail: string;
+};
+
+export type LocalGitClient = {
+  listCommits(repoPath: string, authorEmail: string, fromDateIso: string, toDateIso: string): Promise<LocalGitCommit[]>;
+};
+
+/**
+ * Adds (or subtracts) days to a YYYY-MM-DD date.
+ */
+function shiftDateIso(dateIso: string, days: number): string {
+  const date = new Date(`${dateIso}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Creates a client that shells out to the local `git` binary.
+ * Never touches the network: only `git log` is run against existing repositories.
+ */
+export function createLocalGitClient(): LocalGitClient {
+  return {
+    async listCommits(
+      repoPath: string,
+      authorEmail: string,
+      fromDateIso: string,
+      toDateIso: string
+    ): Promise<LocalGitCommit[]> {
+      console.log(`[localgit-client] git log ${repoPath} (${fromDateIso} to ${toDateIso})`);
+
+      // --since/--until filter on committer date in the server's timezone, so they are padded
+      // by a day; author dates are checked again by the mapper in the requested timezone
+      const { stdout } = await execFileAsync(
+        "git",
+        [
+          "-C", repoPath,
+          "log",
+          "--all",
+          "--no-merges",
+          "--fixed-strings",
+          "--regexp-ignore-case",
+          `--author=<${authorEmail}>`,
+          `--since=${shiftDateIso(fromDateIso, -1)}T00:00:00`,
+          `--until=${shiftDateIso(toDateIso, 1)}T23:59:59`,
+          "--format=%H%x09%aI%x09%aE",
+        ],
+        { maxBuffer: GIT_LOG_MAX_BUFFER, timeout: GIT_LOG_TIMEOUT_MS }
+      );
+
+      return stdout
+        .split("\n")
+        .filter((line) => line.trim() !== "")
+        .map((line) => {
+          const [hash, authorDate, email] = line.split("\t");
+          return { hash, authorDate, authorEmail: email };
+        });
+    },
+  };
+}
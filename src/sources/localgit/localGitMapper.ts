@@ -0,0 +1,64 @@
+// Maps local git commits to domain models.
+
+import type { ContributionDay, ContributionData } from "../../domain/contributions";
+import type { LocalGitCommit } from "./localGitClient";
+import { toLocalDateIso } from "../../utils/timezone";
+
+/**
+ * Generates all dates in a range (inclusive).
+ */
+function generateDateRange(fromDateIso: string, toDateIso: string): string[] {
+  const dates: string[] = [];
+  const current = new Date(`${fromDateIso}T00:00:00Z`);
+  const end = new Date(`${toDateIso}T00:00:00Z`);
+
+  while (current <= end) {
+    dates.push(current.toISOString().split("T")[0]);
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return dates;
+}
+
+/**
+ * Maps commits to domain ContributionData with one entry per day in the range,
+ * like the GitHub contribution calendar.
+ *
+ * Commits are bucketed by the author's local date (the date part of %aI), or by
+ * the date in timeZone when one is given, and counted once even if they are
+ * reachable from several repositories.
+ */
+export function mapContributionData(
+  commits: LocalGitCommit[],
+  authorEmail: string,
+  fromDateIso: string,
+  toDateIso: string,
+  timeZone?: string
+): ContributionData {
+  const dailyMap = new Map<string, number>();
+  const seenHashes = new Set<string>();
+  const email = authorEmail.toLowerCase();
+
+  for (const commit of commits) {
+    if (seenHashes.has(commit.hash)) continue;
+    if (commit.authorEmail.toLowerCase() !== email) continue;
+
+    const date = timeZone ? toLocalDateIso(commit.authorDate, timeZone) : commit.authorDate.slice(0, 10);
+    if (date < fromDateIso || date > toDateIso) continue;
+
+    seenHashes.add(commit.hash);
+    dailyMap.set(date, (dailyMap.get(date) ?? 0) + 1);
+  }
+
+  const days: ContributionDay[] = generateDateRange(fromDateIso, toDateIso).map((dateIso) => ({
+    dateIso,
+    count: dailyMap.get(dateIso) ?? 0,
+    typeCounts: { commits: dailyMap.get(dateIso) ?? 0 },
+  }));
+
+  return {
+    provider: "localgit",
+    user: authorEmail,
+    days,
+  };
+}
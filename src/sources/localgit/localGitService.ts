@@ -0,0 +1,43 @@
+// Public interface for local git repository contributions - used by services layer.
+
+import type { ContributionQuery, ContributionData } from "../../domain/contributions";
+import { upstreamError } from "../../utils/appError";
+import { createLocalGitClient, type LocalGitCommit } from "./localGitClient";
+import { mapContributionData } from "./localGitMapper";
+
+export type LocalGitServiceConfig = {
+  /** Server-side allowlist of repository paths. Requests can never point at other paths. */
+  repoPaths: string[];
+};
+
+export type LocalGitService = {
+  /** `query.user` is the author email to count commits for */
+  fetchContributionData(query: ContributionQuery): Promise<ContributionData>;
+};
+
+/**
+ * Creates a service that counts commits per day from local git repositories.
+ */
+export function createLocalGitService(config: LocalGitServiceConfig): LocalGitService {
+  const client = createLocalGitClient();
+
+  return {
+    async fetchContributionData(query: ContributionQuery): Promise<ContributionData> {
+      const { fromDate, toDate } = query;
+      const commits: LocalGitCommit[] = [];
+
+      for (const repoPath of config.repoPaths) {
+        try {
+          const repoCommits = await client.listCommits(repoPath, query.user, fromDate, toDate);
+          console.log(`[localgit-service] ${repoPath}: ${repoCommits.length} commits`);
+          commits.push(...repoCommits);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          throw upstreamError(`Failed to read git history of ${repoPath}: ${message}`, error);
+        }
+      }
+
+      return mapContributionData(commits, query.user, fromDate, toDate, query.timeZone);
+    },
+  };
+}
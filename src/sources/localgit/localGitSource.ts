@@ -0,0 +1,26 @@
+// Registers the local git service as a contribution source.
+
+import { badRequest } from "../../utils/appError";
+import type { ContributionSource } from "../contributionSource";
+import type { LocalGitService } from "./localGitService";
+
+/**
+ * The credential is the author email (`localgitemail`), which is also the resolved "user".
+ * It is not a secret: any caller can query any author in the configured repositories.
+ */
+export function createLocalGitSource(service: LocalGitService): ContributionSource {
+  return {
+    provider: "localgit",
+    displayName: "Local git",
+    cacheKeyPrefix: "lg",
+    supportsBaseUrl: false,
+    credentialParam: "localgitemail",
+    async resolveUser(credentials) {
+      if (!/^[^\s@<>]+@[^\s@<>]+$/.test(credentials.token)) {
+        throw badRequest(`"${credentials.token}" is not a valid author email`);
+      }
+      return credentials.token;
+    },
+    fetchContributionData: (query) => service.fetchContributionData(query),
+  };
+}
@@ -1,7 +1,11 @@
 export type AppErrorCode =
   | "badRequest"
+  | "unauthorized"
+  | "notFound"
   | "notImplemented"
+  | "rateLimited"
   | "upstreamError"
+  | "serviceUnavailable"
   | "internalError";
 
 export type AppError = {
@@ -12,11 +16,32 @@ export type AppError = {
   cause?: unknown;
 };
 
+/**
+ * An upstream API refused requests because a rate limit was exhausted.
+ */
+export type RateLimitedError = AppError & {
+  code: "rateLimited";
+  /** Seconds until the limit resets, when the upstream API said so */
+  retryAfterSeconds?: number;
+};
+
 export function isAppError(err: unknown): err is AppError {
   if (!err || typeof err !== "object") return false;
   return (err as { name?: unknown }).name === "AppError";
 }
 
+/**
+ * Extracts a readable message from Errors, AppErrors and anything else thrown.
+ */
+export function getErrorMessage(err: unknown): string {
+  if (err instanceof Error || isAppError(err)) return err.message;
+  return String(err);
+}
+
+export function isRateLimitedError(err: unknown): err is RateLimitedError {
+  return isAppError(err) && err.code === "rateLimited";
+}
+
 function createAppError(args: Omit<AppError, "name">): AppError {
   return { name: "AppError", ...args };
 }
@@ -25,6 +50,14 @@ export function badRequest(message: string, cause?: unknown): AppError {
   return createAppError({ code: "badRequest", message, statusCode: 400, cause });
 }
 
+export function unauthorized(message: string, cause?: unknown): AppError {
+  return createAppError({ code: "unauthorized", message, statusCode: 401, cause });
+}
+
+export function notFound(message: string, cause?: unknown): AppError {
+  return createAppError({ code: "notFound", message, statusCode: 404, cause });
+}
+
 export function notImplemented(message: string, cause?: unknown): AppError {
   return createAppError({ code: "notImplemented", message, statusCode: 501, cause });
 }
@@ -34,3 +67,15 @@ export function upstreamError(message: string, cause?: unknown): AppError {
 }
 
 
+
+export function rateLimited(message: string, retryAfterSeconds?: number, cause?: unknown): RateLimitedError {
+  return { name: "AppError", code: "rateLimited", message, statusCode: 429, retryAfterSeconds, cause };
+}
+
+export function serviceUnavailable(message: string, cause?: unknown): AppError {
+  return createAppError({ code: "serviceUnavailable", message, statusCode: 503, cause });
+}
+
+export function internalError(message: string, cause?: unknown): AppError {
+  return createAppError({ code: "internalError", message, statusCode: 500, cause });
+}
@@ -0,0 +1,181 @@
+import { upstreamError } from "./appError";
+
+/**
+ * - closed: requests pass, consecutive failures are counted
+ * - open: requests fail fast until `resetTimeoutMs` has passed
+ * - halfOpen: one probe request passes; its outcome closes or reopens the circuit
+ */
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+export type CircuitBreakerOptions = {
+  /** Consecutive failures that open a host's circuit */
+  failureThreshold: number;
+  /** How long an open circuit fails fast before a probe is let through */
+  resetTimeoutMs: number;
+  /** Hosts tracked at most; per-request base URLs can name any host, so the least recently failed are dropped */
+  maxHosts: number;
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30000,
+  maxHosts: 1000,
+};
+
+/**
+ * State of one host's circuit, as reported by /health.
+ */
+export type CircuitSnapshot = {
+  host: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  /** ISO 8601 time the circuit last opened */
+  openedAt?: string;
+};
+
+/**
+ * Permission to send one request, passed back with its outcome.
+ */
+export type CircuitPermit = {
+  host: string;
+  /** Set when the request is the probe of a half-open circuit */
+  probeId?: number;
+};
+
+export type CircuitBreakers = {
+  /** Throws an upstreamError when the host's circuit is open (or half-open with a probe in flight) */
+  beforeRequest(host: string): CircuitPermit;
+  onSuccess(permit: CircuitPermit): void;
+  onFailure(permit: CircuitPermit): void;
+  /** States of the given hosts; hosts without recent failures are reported as closed */
+  getStates(hosts: string[]): CircuitSnapshot[];
+};
+
+type Circuit = {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: number;
+  lastFailureAt: number;
+  /** The probe in flight while half-open, see CircuitPermit */
+  probeId?: number;
+};
+
+/**
+ * Creates circuit breakers keyed by upstream host.
+ *
+ * Every request to a host reports its outcome (see fetchWithRetry), so a host that keeps
+ * failing stops being called for a while and requests fail right away instead of waiting
+ * for timeouts. Only network errors, timeouts and 5xx responses count as failures.
+ *
+ * Only hosts with recent failures are tracked: closed circuits are forgotten `resetTimeoutMs`
+ * after their last failure, and at most `maxHosts` circuits are kept.
+ */
+export function createCircuitBreakers(options: Partial<CircuitBreakerOptions> = {}): CircuitBreakers {
+  const { failureThreshold, resetTimeoutMs, maxHosts }: CircuitBreakerOptions = {
+    ...DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+    ...options,
+  };
+  // In order of last failure, least recent first
+  const circuits = new Map<string, Circuit>();
+  let lastProbeId = 0;
+
+  /**
+   * Drops closed circuits without recent failures, then the least recently failed ones
+   * until there is room for one more host.
+   */
+  function prune(now: number): void {
+    for (const [host, circuit] of circuits) {
+      if (circuit.state === "closed" && now - circuit.lastFailureAt >= resetTimeoutMs) {
+        circuits.delete(host);
+      }
+    }
+
+    for (const host of circuits.keys()) {
+      if (circuits.size < maxHosts) break;
+      console.warn(`[circuit] ${host}: dropped, tracking at most ${maxHosts} failing hosts`);
+      circuits.delete(host);
+    }
+  }
+
+  /**
+   * Returns the host's circuit, moved to the end of the failure order.
+   */
+  function touchCircuit(host: string, now: number): Circuit {
+    const circuit = circuits.get(host)
+      ?? { state: "closed", consecutiveFailures: 0, openedAt: 0, lastFailureAt: now };
+    circuits.delete(host);
+    circuits.set(host, circuit);
+    return circuit;
+  }
+
+  function open(host: string, circuit: Circuit): void {
+    circuit.state = "open";
+    circuit.openedAt = Date.now();
+    circuit.probeId = undefined;
+    console.warn(`[circuit] ${host}: open after ${circuit.consecutiveFailures} consecutive failures; failing fast for ${resetTimeoutMs}ms`);
+  }
+
+  return {
+    beforeRequest(host: string): CircuitPermit {
+      const circuit = circuits.get(host);
+      if (!circuit || circuit.state === "closed") return { host };
+
+      const retryAt = circuit.openedAt + resetTimeoutMs;
+      if (circuit.state === "open" && Date.now() >= retryAt) {
+        circuit.state = "halfOpen";
+        console.log(`[circuit] ${host}: half-open, sending a probe request`);
+      }
+
+      if (circuit.state === "halfOpen" && circuit.probeId === undefined) {
+        circuit.probeId = ++lastProbeId;
+        return { host, probeId: circuit.probeId };
+      }
+
+      throw upstreamError(
+        `${host} is unavailable after repeated failures; requests are paused until ${new Date(retryAt).toISOString()}`
+      );
+    },
+
+    onSuccess({ host }: CircuitPermit): void {
+      const circuit = circuits.get(host);
+      if (!circuit) return;
+
+      if (circuit.state !== "closed") {
+        console.log(`[circuit] ${host}: closed, probe request succeeded`);
+      }
+      circuits.delete(host);
+    },
+
+    onFailure({ host, probeId }: CircuitPermit): void {
+      const now = Date.now();
+      prune(now);
+
+      const circuit = touchCircuit(host, now);
+      circuit.consecutiveFailures++;
+      circuit.lastFailureAt = now;
+
+      // Only the probe's own failure reopens the circuit; late failures of requests sent before it opened don't
+      if (circuit.state === "halfOpen" && probeId !== undefined && probeId === circuit.probeId) {
+        open(host, circuit);
+      } else if (circuit.state === "closed" && circuit.consecutiveFailures >= failureThreshold) {
+        open(host, circuit);
+      }
+    },
+
+    getStates(hosts: string[]): CircuitSnapshot[] {
+      const now = Date.now();
+      return hosts.map((host) => {
+        const circuit = circuits.get(host);
+        if (!circuit) return { host, state: "closed", consecutiveFailures: 0 };
+
+        return {
+          host,
+          // An open circuit past its timeout lets the next request through
+          state: circuit.state === "open" && now >= circuit.openedAt + resetTimeoutMs ? "halfOpen" : circuit.state,
+          consecutiveFailures: circuit.consecutiveFailures,
+          openedAt: circuit.state === "closed" ? undefined : new Date(circuit.openedAt).toISOString(),
+        };
+      });
+    },
+  };
+}
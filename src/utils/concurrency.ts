@@ -0,0 +1,36 @@
+/**
+ * A function that runs async tasks through a shared concurrency limit.
+ */
+export type ConcurrencyLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most `limit` tasks at a time.
+ * Tasks beyond the limit wait and start in the order they were submitted.
+ *
+ * @param limit - Maximum number of tasks running at once (at least 1)
+ */
+export function createConcurrencyLimiter(limit: number): ConcurrencyLimiter {
+  const maxActive = Math.max(1, Math.floor(limit));
+  const waiting: Array<() => void> = [];
+  let active = 0;
+
+  return async <T>(task: () => Promise<T>): Promise<T> => {
+    if (active >= maxActive) {
+      // A finishing task hands its slot over directly, so `active` stays unchanged
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    } else {
+      active++;
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = waiting.shift();
+      if (next) {
+        next();
+      } else {
+        active--;
+      }
+    }
+  };
+}
@@ -1,4 +1,9 @@
-import { createHash } from 'crypto';
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// AES-256-GCM: 96-bit IV and 128-bit auth tag, as recommended for GCM
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
 
 /**
  * Creates a SHA-256 hash of a token for cache key generation.
@@ -13,3 +18,64 @@ export function hashToken(token: string): string {
   hash.update(token);
   return hash.digest('hex').substring(0, 16);
 }
+
+/**
+ * Derives a 256-bit encryption key from a server secret.
+ * Different purposes yield unrelated keys, so one secret can serve several features.
+ *
+ * @param secret - Server secret from the environment (should be long and random)
+ * @param purpose - Label separating keys per feature (e.g. "profiles")
+ */
+export function deriveKey(secret: string, purpose: string): Buffer {
+  return createHmac('sha256', secret).update(purpose).digest();
+}
+
+/**
+ * Encrypts and authenticates a string with AES-256-GCM.
+ * Returns base64url of IV + auth tag + ciphertext, safe for URLs and JSON.
+ *
+ * @param plaintext - Data to encrypt
+ * @param key - 32-byte key from deriveKey
+ */
+export function encrypt(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+/**
+ * Decrypts a payload created by encrypt.
+ * Returns null when the payload is malformed, was tampered with or used another key.
+ *
+ * @param payload - base64url string from encrypt
+ * @param key - The key the payload was encrypted with
+ */
+export function decrypt(payload: string, key: Buffer): string | null {
+  const data = Buffer.from(payload, 'base64url');
+  // Decoding skips invalid characters, so only accept payloads that round-trip exactly
+  if (data.toString('base64url') !== payload || data.length < IV_LENGTH + AUTH_TAG_LENGTH) {
+    return null;
+  }
+
+  try {
+    const decipher = createDecipheriv(CIPHER_ALGORITHM, key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+    const plaintext = Buffer.concat([
+      decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+    return plaintext.toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compares two secrets in constant time (hashing first, so lengths may differ).
+ */
+export function secretsEqual(a: string, b: string): boolean {
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
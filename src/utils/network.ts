@@ -1,14 +1,67 @@
-import { Response } from "express";
+import { createHash } from "crypto";
+import { Request, Response } from "express";
 
-function setSVGHeaders(res: Response) {
+import { rateLimited } from "./appError";
+import type { CircuitBreakers, CircuitPermit } from "./circuitBreaker";
+
+/**
+ * Browser/CDN caching of an endpoint's responses.
+ */
+export type CacheControlPolicy = {
+  /** max-age in seconds for data that can still change (e.g. a rolling window ending today) */
+  maxAgeSeconds: number;
+  /** max-age in seconds for final data (e.g. past years), sent as immutable */
+  finalMaxAgeSeconds: number;
+};
+
+export const DEFAULT_CACHE_CONTROL_POLICY: CacheControlPolicy = {
+  maxAgeSeconds: 3600, // 1 hour
+  finalMaxAgeSeconds: 31536000, // 1 year
+};
+
+export type SVGResponseOptions = {
+  policy?: CacheControlPolicy;
+  /** Whether the image can no longer change, selects the final max-age */
+  isFinal?: boolean;
+  /** When the underlying data was fetched (epoch ms), sent as Last-Modified */
+  lastModified?: number;
+  /** Providers whose data is missing from the image, sent as X-Unavailable-Sources */
+  unavailableSources?: string[];
+};
+
+function buildCacheControl(policy: CacheControlPolicy, isFinal: boolean): string {
+  return isFinal
+    ? `public, max-age=${policy.finalMaxAgeSeconds}, immutable`
+    : `public, max-age=${policy.maxAgeSeconds}`;
+}
+
+function setSVGHeaders(res: Response, svg: string, options: SVGResponseOptions) {
   res.setHeader("Content-Type", "image/svg+xml");
-  res.setHeader("Cache-Control", "public, max-age=86400");
+  res.setHeader("Cache-Control", buildCacheControl(options.policy ?? DEFAULT_CACHE_CONTROL_POLICY, options.isFinal ?? false));
+  res.setHeader("ETag", `"${createHash("sha256").update(svg).digest("base64url")}"`);
+  if (options.lastModified !== undefined) {
+    res.setHeader("Last-Modified", new Date(options.lastModified).toUTCString());
+  }
+  if (options.unavailableSources && options.unavailableSources.length > 0) {
+    res.setHeader("X-Unavailable-Sources", [...new Set(options.unavailableSources)].join(", "));
+  }
   res.setHeader("Vary", "Accept-Encoding");
   res.setHeader("Referrer-Policy", "no-referrer");
 }
 
-export function sendSVGResponse(res: Response, svg: string) {
-    setSVGHeaders(res);
+/**
+ * Sends a rendered SVG with caching headers.
+ * Answers 304 Not Modified when the client's If-None-Match (or If-Modified-Since) still matches.
+ */
+export function sendSVGResponse(req: Request, res: Response, svg: string, options: SVGResponseOptions = {}) {
+    setSVGHeaders(res, svg, options);
+
+    // req.fresh compares the conditional request headers with ETag/Last-Modified set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
     res.send(svg);
 }
 
@@ -36,4 +89,183 @@ export async function fetchWithTimeout(
   } finally {
     clearTimeout(timeoutId);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Retries of upstream requests, see fetchWithRetry.
+ */
+export type RetryOptions = {
+  /** Retries after the first attempt */
+  retries: number;
+  /** Backoff before the first retry; doubles with every retry */
+  baseDelayMs: number;
+  /** Upper bound of the backoff */
+  maxDelayMs: number;
+  /** Longest rate limit reset to wait for; longer ones fail right away */
+  maxRateLimitWaitMs: number;
+  /** Timeout of each attempt */
+  timeoutMs: number;
+};
+
+export type FetchWithRetryOptions = Partial<RetryOptions> & {
+  /** Per-host circuit breakers; every attempt is checked against them, and each request reports one outcome */
+  circuitBreakers?: CircuitBreakers;
+};
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRateLimitWaitMs: 10000,
+  timeoutMs: 30000,
+};
+
+// Transient server errors worth retrying
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Exponential backoff with full jitter, so clients that failed together do not retry together.
+ */
+function getBackoffMs(attempt: number, options: RetryOptions): number {
+  return Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Returns how long an upstream API asks to wait, from its rate limit headers.
+ *
+ * - `Retry-After`: seconds or an HTTP date (all providers)
+ * - `X-RateLimit-Reset`: epoch seconds, when `X-RateLimit-Remaining` is 0 (GitHub, Gitea)
+ * - `RateLimit-Reset`: epoch seconds, when `RateLimit-Remaining` is 0 (GitLab)
+ *
+ * @returns Milliseconds to wait, or undefined when the headers don't say
+ */
+export function getRateLimitWaitMs(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfter = headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const waitMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - now;
+    if (Number.isFinite(waitMs)) return Math.max(0, waitMs);
+  }
+
+  for (const prefix of ["X-RateLimit", "RateLimit"]) {
+    const reset = Number(headers.get(`${prefix}-Reset`));
+    if (headers.get(`${prefix}-Remaining`) === "0" && reset > 0) {
+      return Math.max(0, reset * 1000 - now);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an upstream API rejected the credentials (as opposed to failing).
+ * Rate limited 403s never reach callers; fetchWithRetry turns them into rateLimited errors.
+ */
+export function isRejectedCredentials(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Whether a response was refused by a rate limit.
+ * GitHub answers exhausted limits with 403 instead of 429.
+ */
+function isRateLimitedResponse(response: globalThis.Response): boolean {
+  if (response.status === 429) return true;
+  return response.status === 403 && (
+    response.headers.has("Retry-After") ||
+    response.headers.get("X-RateLimit-Remaining") === "0" ||
+    response.headers.get("RateLimit-Remaining") === "0"
+  );
+}
+
+/**
+ * Fetches with a timeout per attempt and retries transient failures.
+ *
+ * - Network errors, timeouts and 500/502/503/504 responses are retried with jittered exponential backoff.
+ * - Rate limited responses are retried after the reset the API announces, if that is within
+ *   `maxRateLimitWaitMs`; otherwise a rateLimited AppError is thrown right away.
+ * - Any other response is returned as it is, so callers keep handling their own error statuses.
+ * - With circuit breakers, a host whose circuit is open fails fast with an upstreamError, also between retries.
+ *   A request counts as one failure, once its retries are used up; only a failed probe is reported
+ *   right away, since it decides whether the circuit reopens.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: FetchWithRetryOptions = {}
+): Promise<globalThis.Response> {
+  const { circuitBreakers, ...retryOptions } = options;
+  const retry: RetryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  const { host } = new URL(url);
+
+  /**
+   * Reports a failed attempt, unless it will be retried and is not a probe.
+   */
+  function reportFailure(permit: CircuitPermit | undefined, willRetry: boolean): void {
+    if (permit && (!willRetry || permit.probeId !== undefined)) {
+      circuitBreakers?.onFailure(permit);
+    }
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const canRetry = attempt < retry.retries;
+    let response: globalThis.Response;
+
+    const permit = circuitBreakers?.beforeRequest(host);
+    try {
+      response = await fetchWithTimeout(url, init, retry.timeoutMs);
+    } catch (error) {
+      reportFailure(permit, canRetry);
+      if (!canRetry) throw error;
+      const delayMs = getBackoffMs(attempt, retry);
+      console.warn(`[network] ${host}: ${error instanceof Error ? error.message : String(error)}; retrying in ${Math.round(delayMs)}ms`);
+      await sleep(delayMs);
+      continue;
+    }
+
+    // The host answered, so only server errors count against its circuit
+    if (permit && response.status < 500) {
+      circuitBreakers?.onSuccess(permit);
+    }
+
+    if (isRateLimitedResponse(response)) {
+      const waitMs = getRateLimitWaitMs(response.headers);
+      if (!canRetry || waitMs === undefined || waitMs > retry.maxRateLimitWaitMs) {
+        // Drain the body so the connection can be reused
+        await response.body?.cancel();
+        const retryAfterSeconds = waitMs === undefined ? undefined : Math.ceil(waitMs / 1000);
+        throw rateLimited(
+          retryAfterSeconds === undefined
+            ? `Rate limit exceeded for ${host}`
+            : `Rate limit exceeded for ${host}, resets in ${retryAfterSeconds}s`,
+          retryAfterSeconds
+        );
+      }
+      console.warn(`[network] ${host}: rate limited (${response.status}); retrying in ${Math.round(waitMs)}ms`);
+      await response.body?.cancel();
+      await sleep(waitMs);
+      continue;
+    }
+
+    if (response.status >= 500) {
+      const delayMs = RETRYABLE_STATUSES.has(response.status) && canRetry
+        ? getRateLimitWaitMs(response.headers) ?? getBackoffMs(attempt, retry)
+        : undefined;
+      const willRetry = delayMs !== undefined && delayMs <= retry.maxRateLimitWaitMs;
+      reportFailure(permit, willRetry);
+
+      if (willRetry) {
+        console.warn(`[network] ${host}: ${response.status} ${response.statusText}; retrying in ${Math.round(delayMs)}ms`);
+        await response.body?.cancel();
+        await sleep(delayMs);
+        continue;
+      }
+    }
+
+    return response;
+  }
+}
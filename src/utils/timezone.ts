@@ -0,0 +1,98 @@
+// Calendar-day helpers for IANA timezones (e.g. "Europe/Berlin").
+// Without a timezone, days are UTC days, which is the default everywhere.
+
+// Formatters are expensive to create and requests reuse few timezones
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Returns the wall-clock fields of an instant in a timezone.
+ */
+function getZonedParts(date: Date, timeZone: string): Record<string, number> {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  return parts;
+}
+
+/**
+ * Checks whether a string is a timezone name the runtime knows (e.g. "America/New_York").
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns the calendar day (YYYY-MM-DD) of an instant in a timezone (UTC when omitted).
+ *
+ * @param instant - ISO 8601 datetime with offset, or a Date
+ */
+export function toLocalDateIso(instant: string | Date, timeZone?: string): string {
+  const date = typeof instant === "string" ? new Date(instant) : instant;
+  if (!timeZone) return date.toISOString().split("T")[0];
+
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * Returns today's calendar day (YYYY-MM-DD) in a timezone (UTC when omitted).
+ */
+export function todayIso(timeZone?: string): string {
+  return toLocalDateIso(new Date(), timeZone);
+}
+
+/**
+ * Returns the instant (ISO 8601, UTC) at which a calendar day starts in a timezone.
+ * Example: ("2025-03-01", "Europe/Berlin") → "2025-02-28T23:00:00.000Z"
+ */
+export function getDayStartIso(dateIso: string, timeZone?: string): string {
+  const utcMidnight = new Date(`${dateIso}T00:00:00Z`);
+  if (!timeZone) return utcMidnight.toISOString();
+
+  // Offset of the zone at a given instant, in ms (local wall clock minus UTC)
+  const offsetAt = (date: Date): number => {
+    const parts = getZonedParts(date, timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+    return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+  };
+
+  // Apply the offset twice so days starting right after a DST switch resolve correctly
+  const guess = new Date(utcMidnight.getTime() - offsetAt(utcMidnight));
+  return new Date(utcMidnight.getTime() - offsetAt(guess)).toISOString();
+}
+
+/**
+ * Returns the last second (ISO 8601, UTC) of a calendar day in a timezone.
+ * Example: ("2025-03-01", "Europe/Berlin") → "2025-03-01T22:59:59.000Z"
+ */
+export function getDayEndIso(dateIso: string, timeZone?: string): string {
+  const nextDay = new Date(`${dateIso}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  const nextDayStart = new Date(getDayStartIso(nextDay.toISOString().split("T")[0], timeZone));
+  return new Date(nextDayStart.getTime() - 1000).toISOString();
+}